@@ -14,14 +14,10 @@ export const getSettings = catchAsync(async (req: Request, res: Response) => {
     where: { userId: req.user.id },
   });
 
+  // No row until the client first saves, so it knows to upload its own
+  // settings rather than take defaults it never chose
   if (!settings) {
-    // Create default settings if not found
-    const newSettings = await prisma.settings.create({
-      data: {
-        userId: req.user.id,
-      },
-    });
-    return res.status(200).json({ settings: newSettings });
+    return res.status(200).json({ settings: null });
   }
 
   return res.status(200).json({ settings });
@@ -42,8 +38,20 @@ export const updateSettings = catchAsync(async (req: Request, res: Response) =>
     pomodoroMinutes,
     shortBreakMinutes,
     longBreakMinutes,
+    longBreakInterval,
     autoStartBreaks,
     autoStartPomodoros,
+    flowMode,
+    presets,
+    activePresetId,
+    dailyGoal,
+    dayStartHour,
+    pauseTimeoutMinutes,
+    logAbandonedMinutes,
+    awayThresholdMinutes,
+    focusSchedule,
+    notifications,
+    keymap,
     darkMode,
     alarmSound,
     alarmVolume,
@@ -59,8 +67,20 @@ export const updateSettings = catchAsync(async (req: Request, res: Response) =>
       pomodoroMinutes: pomodoroMinutes !== undefined ? pomodoroMinutes : undefined,
       shortBreakMinutes: shortBreakMinutes !== undefined ? shortBreakMinutes : undefined,
       longBreakMinutes: longBreakMinutes !== undefined ? longBreakMinutes : undefined,
+      longBreakInterval: longBreakInterval !== undefined ? longBreakInterval : undefined,
       autoStartBreaks: autoStartBreaks !== undefined ? autoStartBreaks : undefined,
       autoStartPomodoros: autoStartPomodoros !== undefined ? autoStartPomodoros : undefined,
+      flowMode: flowMode !== undefined ? flowMode : undefined,
+      presets: presets !== undefined ? presets : undefined,
+      activePresetId: activePresetId !== undefined ? activePresetId : undefined,
+      dailyGoal: dailyGoal !== undefined ? dailyGoal : undefined,
+      dayStartHour: dayStartHour !== undefined ? dayStartHour : undefined,
+      pauseTimeoutMinutes: pauseTimeoutMinutes !== undefined ? pauseTimeoutMinutes : undefined,
+      logAbandonedMinutes: logAbandonedMinutes !== undefined ? logAbandonedMinutes : undefined,
+      awayThresholdMinutes: awayThresholdMinutes !== undefined ? awayThresholdMinutes : undefined,
+      focusSchedule: focusSchedule !== undefined ? focusSchedule : undefined,
+      notifications: notifications !== undefined ? notifications : undefined,
+      keymap: keymap !== undefined ? keymap : undefined,
       darkMode: darkMode !== undefined ? darkMode : undefined,
       alarmSound: alarmSound !== undefined ? alarmSound : undefined,
       alarmVolume: alarmVolume !== undefined ? alarmVolume : undefined,
@@ -73,11 +93,23 @@ export const updateSettings = catchAsync(async (req: Request, res: Response) =>
       pomodoroMinutes: pomodoroMinutes || 25,
       shortBreakMinutes: shortBreakMinutes || 5,
       longBreakMinutes: longBreakMinutes || 15,
+      longBreakInterval: longBreakInterval || 4,
       autoStartBreaks: autoStartBreaks || false,
       autoStartPomodoros: autoStartPomodoros || false,
-      darkMode: darkMode || false,
+      flowMode: flowMode || false,
+      presets: presets || [],
+      activePresetId: activePresetId !== undefined ? activePresetId : 'classic',
+      dailyGoal: dailyGoal !== undefined ? dailyGoal : 8,
+      dayStartHour: dayStartHour || 0,
+      pauseTimeoutMinutes: pauseTimeoutMinutes !== undefined ? pauseTimeoutMinutes : 30,
+      logAbandonedMinutes: logAbandonedMinutes !== undefined ? logAbandonedMinutes : true,
+      awayThresholdMinutes: awayThresholdMinutes !== undefined ? awayThresholdMinutes : 10,
+      focusSchedule: focusSchedule || [],
+      notifications: notifications || false,
+      keymap: keymap || {},
+      darkMode: darkMode !== undefined ? darkMode : true,
       alarmSound: alarmSound || 'kitchen',
-      alarmVolume: alarmVolume || 50,
+      alarmVolume: alarmVolume !== undefined ? alarmVolume : 80,
       tickingSound: tickingSound || 'none',
       tickingVolume: tickingVolume || 50,
       alarmRepeat: alarmRepeat || 1,
@@ -57,34 +57,16 @@ app.get('/api/auth/me', (req, res) => {
 });
 
 // Settings endpoints
+// Nothing is stored until the client first saves its settings
+let mockSettings: Record<string, unknown> | null = null;
+
 app.get('/api/settings', (req, res) => {
-  res.status(200).json({ 
-    settings: {
-      id: '1',
-      userId: '1',
-      pomodoroMinutes: 25,
-      shortBreakMinutes: 5,
-      longBreakMinutes: 15,
-      autoStartBreaks: false,
-      autoStartPomodoros: false,
-      darkMode: false,
-      alarmSound: 'kitchen',
-      alarmVolume: 50,
-      tickingSound: 'none',
-      tickingVolume: 50,
-      alarmRepeat: 1
-    } 
-  });
+  res.status(200).json({ settings: mockSettings });
 });
 
 app.put('/api/settings', (req, res) => {
-  res.status(200).json({ 
-    settings: {
-      ...req.body,
-      id: '1',
-      userId: '1'
-    } 
-  });
+  mockSettings = { ...mockSettings, ...req.body, id: '1', userId: '1' };
+  res.status(200).json({ settings: mockSettings });
 });
 
 // Task endpoints
@@ -0,0 +1,159 @@
+/**
+ * PomoSpace service worker
+ * Precaches the app shell and sounds so PomoSpace runs offline (all its data
+ * lives in localStorage), shows end-of-phase notifications scheduled by the
+ * page even once the tab is closed, and passes notification button clicks
+ * on to an open PomoSpace tab.
+ */
+/* global TimestampTrigger */
+
+// Filled in at build time by the precache plugin in vite.config.ts.
+// Left undefined in development, where nothing is cached.
+const PRECACHE = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] };
+
+const CACHE_PREFIX = 'pomospace-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE.version}`;
+
+// Same tag as the notifications shown by the page, so one replaces the other
+const NOTIFICATION_TAG = 'pomoSpacePhase';
+
+// Fallback timer for browsers without notification triggers, and how to
+// settle the waitUntil promise keeping the worker alive for it
+let scheduledTimeout = null;
+let settleScheduled = null;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    if (PRECACHE.urls.length > 0) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(PRECACHE.urls);
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // Drop the caches of previous builds
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+      .map(key => caches.delete(key)));
+
+    await self.clients.claim();
+  })());
+});
+
+// Helper function to answer a page load: fresh when online, the cached shell when not
+const handleNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Helper function to answer an asset request from the cache, caching it on first use
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Nothing is cached in development, and the API is always left to the network
+  if (PRECACHE.urls.length === 0 ||
+      request.method !== 'GET' ||
+      url.origin !== self.location.origin ||
+      url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+});
+
+// Helper function to find the tab to act in, opening one if none is left
+const getClient = async () => {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const focused = clients.find(client => client.focused);
+  const client = focused || clients[0];
+
+  if (client) {
+    return client.focus();
+  }
+
+  return self.clients.openWindow('/');
+};
+
+self.addEventListener('notificationclick', (event) => {
+  const action = event.action;
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const client = await getClient();
+
+    // A click on the notification itself just brings the tab back
+    if (client && action) {
+      client.postMessage({ type: 'notificationAction', action });
+    }
+  })());
+});
+
+// Helper function to drop a scheduled notification that hasn't been shown yet
+const cancelScheduled = async () => {
+  if (scheduledTimeout !== null) {
+    clearTimeout(scheduledTimeout);
+    scheduledTimeout = null;
+    settleScheduled();
+  }
+
+  // Triggered notifications carry the time they're due as their timestamp
+  const pending = await self.registration.getNotifications({ tag: NOTIFICATION_TAG, includeTriggered: true });
+  pending
+    .filter(notification => notification.timestamp > Date.now())
+    .forEach(notification => notification.close());
+};
+
+// Helper function to show a notification at `at`, even if every tab is closed by then
+const schedule = async ({ at, title, body, actions }) => {
+  await cancelScheduled();
+
+  const options = { body, actions, tag: NOTIFICATION_TAG, icon: '/icons/icon-192.png' };
+
+  // Notification triggers survive the worker being stopped
+  if ('showTrigger' in Notification.prototype) {
+    await self.registration.showNotification(title, { ...options, timestamp: at, showTrigger: new TimestampTrigger(at) });
+    return;
+  }
+
+  // Otherwise it only fires if the browser keeps the worker alive until then
+  await new Promise((resolve) => {
+    settleScheduled = resolve;
+    scheduledTimeout = setTimeout(() => {
+      scheduledTimeout = null;
+      self.registration.showNotification(title, options).finally(resolve);
+    }, Math.max(0, at - Date.now()));
+  });
+};
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message) return;
+
+  if (message.type === 'schedulePhaseNotification') {
+    event.waitUntil(schedule(message));
+  } else if (message.type === 'cancelPhaseNotification') {
+    event.waitUntil(cancelScheduled());
+  }
+});
@@ -1,40 +1,39 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { PomodoroTimer } from './components/PomodoroTimer';
 import { TaskList } from './components/TaskList';
 import { Navigation } from './components/Navigation';
 import { SettingsModal } from './components/SettingsModal';
 import { ReportsPage } from './components/ReportsPage';
-import { preloadSounds } from './utils/soundUtils';
+import { playAlarmSound, preloadSounds } from './utils/soundUtils';
 import { SpeedInsights } from "@vercel/speed-insights/react";
-
-interface Settings {
-  timerDurations: {
-    pomodoro: number;
-    shortBreak: number;
-    longBreak: number;
-  };
-  longBreakInterval: number;
-  autoStartBreaks: boolean;
-  autoStartPomodoros: boolean;
-  darkMode: boolean;
-  sound: {
-    alarmSound: string;
-    alarmVolume: number;
-    alarmRepeat: number;
-    tickingSound: string;
-    tickingVolume: number;
-  };
-  lastUpdated?: number; // Timestamp to force timer resets when settings change
-}
-
-interface TaskItem {
-  id: string;
-  text: string;
-  completed: boolean;
-  estimatedPomodoros: number;
-  completedPomodoros: number;
-  category?: string;
-}
+import { useTimer, Interruption, PomodoroSession, TimerType } from './hooks/useTimer';
+import { useTasks } from './hooks/useTasks';
+import { usePhaseNotifications } from './hooks/usePhaseNotifications';
+import { useTabIndicator } from './hooks/useTabIndicator';
+import { getDisplayTime, getPhaseProgress } from './utils/timeFormat';
+import { applyPreset } from './utils/timerPresets';
+import { DAILY_LOG_KEY, DailyLog, getDayKey, loadDailyLog, recordDailyPomodoro } from './utils/dailyGoal';
+import { getNotificationPermission } from './utils/notifications';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { formatKey } from './utils/keymap';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { ShortcutsModal } from './components/ShortcutsModal';
+import { CommandPalette } from './components/CommandPalette';
+import { FocusView } from './components/FocusView';
+import { MissedFocusBlocks } from './components/MissedFocusBlocks';
+import { ErrorBoundary } from './components/ErrorBoundary';
+import { AwayPrompt } from './components/AwayPrompt';
+import { useAwayDetection } from './hooks/useAwayDetection';
+import { useFocusSchedule } from './hooks/useFocusSchedule';
+import { ScheduledBlock, ScheduledBlockOccurrence } from './utils/focusSchedule';
+import { Settings, loadSettings, saveSettings } from './utils/settingsSchema';
+import { fromServerSettings, loadSyncedSettings, mergeServerSettings, saveSyncedSettings, toServerSettings } from './utils/serverSettings';
+import { authApi, settingsApi } from './api';
+import { AwayAdjustment, AwayChoice, combineAwayAdjustments, getAwayAdjustment, getAwayMinutes, getAwayMinutesBetween } from './utils/awayTime';
+import { Command } from './utils/commands';
+import { downloadTaskHistoryCSV } from './utils/dataUtils';
+import { useRoute } from './hooks/useRoute';
+import { DEFAULT_REPORTS_ROUTE, PageRoute, REPORT_TABS, ReportsRoute, ReportsTab } from './utils/routes';
 
 interface TaskHistoryItem {
   id: string;
@@ -43,134 +42,93 @@ interface TaskHistoryItem {
   date: string;
   minutes: number;
   category?: string;
+  outcome?: 'completed' | 'skipped' | 'abandoned' | 'reset';
+  partial?: boolean;                    // Minutes of a pomodoro that was reset before it finished
+  timerType?: 'pomodoro' | 'stopwatch'; // Missing on entries from before the stopwatch
+  extendedMinutes?: number;
+  interruptions?: Interruption[];
+  awayMinutes?: number;                 // Minutes away taken off the pomodoro
+  awayAsBreak?: boolean;                // The time away was logged as a break
 }
 
+// How long settings have to stay unchanged before they're sent to the server
+const SETTINGS_SYNC_DELAY_MS = 1000;
+
+// How a session ended, as logged to task history
+type SessionKind = 'completed' | 'skipped' | 'abandoned' | 'partial' | 'stopwatch';
+
+// What a history entry records for each way a session can end
+const SESSION_DETAILS: Record<SessionKind, Partial<TaskHistoryItem>> = {
+  completed: { outcome: 'completed' },
+  skipped: { outcome: 'skipped' },
+  abandoned: { outcome: 'abandoned' },
+  partial: { outcome: 'reset', partial: true },
+  stopwatch: { outcome: 'completed', timerType: 'stopwatch' }
+};
+
+// Timer types as named in the command palette
+const TIMER_MODE_LABELS: Record<TimerType, string> = {
+  pomodoro: 'Pomodoro',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+  stopwatch: 'Stopwatch'
+};
+
+// Reports tabs, in the order ReportsPage shows them
+const REPORT_TAB_LABELS: Record<ReportsTab, string> = {
+  overview: 'Overview',
+  daily: 'Daily',
+  categories: 'Categories',
+  history: 'History',
+  interruptions: 'Interruptions'
+};
+
 export function App() {
-  // Add a loading state to prevent premature rendering
-  const [isLoading, setIsLoading] = useState(true);
+  // Get the current theme from localStorage or default to 'dark'
+  const [timerMode, setTimerMode] = useState<string>(localStorage.getItem('pomoSpaceTimerMode') || 'pomodoro');
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const closeShortcuts = useCallback(() => setShortcutsOpen(false), []);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const closePalette = useCallback(() => setPaletteOpen(false), []);
   
-  // CRITICAL FIX: Check for the hardcoded 15-minute value in localStorage on startup
-  useEffect(() => {
-    console.log('🔍 App initialization - checking for hardcoded timer value');
-    
-    try {
-      const timerState = localStorage.getItem('pomoSpaceTimerState');
-      if (timerState) {
-        const parsedState = JSON.parse(timerState);
-        
-        // Check if there's a hardcoded 15-minute (900 seconds) value
-        let needsFixing = false;
-        
-        // Check pomodoro timer state
-        if (parsedState.timerStates?.pomodoro?.timeRemaining === 900) {
-          console.warn('⚠️ Found hardcoded 15-minute value in pomodoro timer! Fixing...');
-          parsedState.timerStates.pomodoro.timeRemaining = 1500; // 25 minutes
-          needsFixing = true;
-        }
-        
-        // Check main timer if mode is pomodoro
-        if (parsedState.timerMode === 'pomodoro' && parsedState.timeRemaining === 900) {
-          console.warn('⚠️ Found hardcoded 15-minute value in main timer! Fixing...');
-          parsedState.timeRemaining = 1500; // 25 minutes
-          needsFixing = true;
-        }
-        
-        // If we found and fixed issues, save the state and reload
-        if (needsFixing) {
-          localStorage.setItem('pomoSpaceTimerState', JSON.stringify(parsedState));
-          console.log('✅ Fixed timer values, reloading page to apply changes');
-          window.location.reload();
-          return;
-        }
-      }
-    } catch (error) {
-      console.error('Error checking timer state:', error);
-      localStorage.removeItem('pomoSpaceTimerState');
-    }
-    
-    // Continue with normal app initialization
-    setIsLoading(false);
-  }, []);
+  // The page, the reports tab and the settings dialog all follow the URL
+  const { route, navigate } = useRoute();
+  const settingsOpen = route.page === 'settings';
   
-  // CRITICAL FIX: Reset localStorage on app initialization if timer values are wrong
-  useEffect(() => {
-    // Skip if we're still in the first loading check
-    if (isLoading) return;
-    
-    console.log('🧹 App initialization - checking localStorage');
-    
-    // Check for timer issues and completely reset if needed
-    const timerState = localStorage.getItem('pomoSpaceTimerState');
-    const settingsStr = localStorage.getItem('pomoSpaceSettings');
-    
-    try {
-      // If we have settings, validate them
-      if (settingsStr) {
-        const settings = JSON.parse(settingsStr);
-        console.log('Current settings:', settings);
-        
-        // Check if pomodoro duration in settings is valid
-        if (!settings.timerDurations?.pomodoro || 
-            settings.timerDurations.pomodoro < 1 ||
-            settings.timerDurations.pomodoro > 60) {
-          
-          console.log('❌ Invalid pomodoro duration in settings, resetting');
-          localStorage.removeItem('pomoSpaceSettings');
-          localStorage.removeItem('pomoSpaceTimerState');
-          window.location.reload();
-          return;
-        }
-      }
-      
-      // If we have timer state, check it against settings
-      if (timerState && settingsStr) {
-        const state = JSON.parse(timerState);
-        const settings = JSON.parse(settingsStr);
-        
-        // Check if values in timer state match settings
-        if (state.timerMode === 'pomodoro' && !state.isActive) {
-          const expectedPomodoroTime = settings.timerDurations.pomodoro * 60;
-          const actualPomodoroTime = state.timerStates?.pomodoro?.timeRemaining;
-          
-          console.log('Expected pomodoro time:', expectedPomodoroTime);
-          console.log('Actual pomodoro time:', actualPomodoroTime);
-          
-          // If there's a mismatch, reset everything
-          if (actualPomodoroTime !== expectedPomodoroTime) {
-            console.log('🚨 Timer value mismatch detected! Resetting localStorage');
-            localStorage.removeItem('pomoSpaceTimerState');
-            
-            // Force reset of settings to ensure consistency
-            const newSettings = {
-              ...settings,
-              lastUpdated: Date.now()
-            };
-            localStorage.setItem('pomoSpaceSettings', JSON.stringify(newSettings));
-            
-            // Reload to apply changes
-            window.location.reload();
-            return;
-          }
-        }
-      }
-      
-      // All checks passed, we can finish loading
-      setIsLoading(false);
-    } catch (error) {
-      console.error('Error validating localStorage data:', error);
-      // If there's an error, perform a complete reset
-      localStorage.removeItem('pomoSpaceSettings');
-      localStorage.removeItem('pomoSpaceTimerState');
-      window.location.reload();
-      return;
-    }
-  }, [isLoading]);
+  // Page shown behind the settings dialog, and the reports tab last viewed
+  const pageRouteRef = useRef<PageRoute>({ page: 'timer' });
+  const reportsRouteRef = useRef<ReportsRoute>(DEFAULT_REPORTS_ROUTE);
+  if (route.page !== 'settings') {
+    pageRouteRef.current = route;
+  }
+  if (route.page === 'reports') {
+    reportsRouteRef.current = route;
+  }
+  const activeTab = pageRouteRef.current.page;
+  const reportsRoute = reportsRouteRef.current;
   
-  // Get the current theme from localStorage or default to 'dark'
-  const [timerMode, setTimerMode] = useState<string>(localStorage.getItem('pomoSpaceTimerMode') || 'pomodoro');
-  const [settingsOpen, setSettingsOpen] = useState(false);
+  // Show the timer or the reports, on the tab and range last viewed
+  const setActiveTab = useCallback((tab: string) => {
+    navigate(tab === 'reports' ? reportsRouteRef.current : { page: 'timer' });
+  }, [navigate]);
   
-  const [activeTab, setActiveTab] = useState('timer');
+  // Whether the settings dialog was opened from within the app, rather than by its URL
+  const settingsOpenedHereRef = useRef(false);
+  
+  const openSettings = useCallback(() => {
+    settingsOpenedHereRef.current = true;
+    navigate({ page: 'settings' });
+  }, [navigate]);
+  
+  // Go back to where the dialog was opened from, so Back doesn't reopen it
+  const closeSettings = useCallback(() => {
+    if (settingsOpenedHereRef.current) {
+      settingsOpenedHereRef.current = false;
+      window.history.back();
+    } else {
+      navigate(pageRouteRef.current, true);
+    }
+  }, [navigate]);
   
   // Track the active task
   const [activeTaskId, setActiveTaskId] = useState<string | null>(() => {
@@ -184,110 +142,20 @@ export function App() {
     }
     return null;
   });
+  
+  // Tasks are kept here rather than in TaskList, so the command palette can reach them
+  const { tasks, setTasks, addTask } = useTasks();
+  const activeTaskName = tasks.find(task => task.id === activeTaskId)?.text || null;
 
-  // Force correct Pomodoro settings to prevent any display issues
-  useEffect(() => {
-    // Skip if we're still in the first loading checks
-    if (isLoading) return;
-    
-    // Check if we have timer settings in localStorage
-    const savedSettingsStr = localStorage.getItem('pomoSpaceSettings');
-    if (savedSettingsStr) {
-      try {
-        const savedSettings = JSON.parse(savedSettingsStr);
-        
-        // Ensure the pomodoro duration is valid (between 1 and 60 minutes)
-        if (!savedSettings.timerDurations || 
-            !savedSettings.timerDurations.pomodoro || 
-            savedSettings.timerDurations.pomodoro < 1 || 
-            savedSettings.timerDurations.pomodoro > 60) {
-          
-          console.log('Invalid pomodoro duration detected in settings. Resetting to 25 minutes.');
-          
-          // Fix the settings with correct pomodoro duration (25 min)
-          const correctedSettings = {
-            ...savedSettings,
-            timerDurations: {
-              ...(savedSettings.timerDurations || {}),
-              pomodoro: 25,  // Force pomodoro to be 25 minutes
-              shortBreak: savedSettings.timerDurations?.shortBreak || 5,
-              longBreak: savedSettings.timerDurations?.longBreak || 15
-            },
-            lastUpdated: Date.now()  // Add timestamp to force update
-          };
-          
-          // Save corrected settings
-          localStorage.setItem('pomoSpaceSettings', JSON.stringify(correctedSettings));
-          
-          // Also clear the timer state to force a fresh start
-          localStorage.removeItem('pomoSpaceTimerState');
-          
-          // Reload to apply changes
-          window.location.reload();
-        }
-      } catch (error) {
-        console.error('Error parsing settings:', error);
-        // Settings are corrupted, reset them
-        localStorage.removeItem('pomoSpaceSettings');
-      }
-    }
-    // Set loading to false in case it hasn't been set yet
-    setIsLoading(false);
-  }, [isLoading]);
+  // Load settings from localStorage, upgraded to the current schema
+  const [settings, setSettings] = useState<Settings>(loadSettings);
 
-  // Load settings from localStorage or use defaults
-  const [settings, setSettings] = useState<Settings>(() => {
-    const savedSettingsStr = localStorage.getItem('pomoSpaceSettings');
-    
-    if (savedSettingsStr) {
-      try {
-        const savedSettings = JSON.parse(savedSettingsStr);
-        // Ensure default values for any missing properties
-        return {
-          timerDurations: {
-            pomodoro: savedSettings.timerDurations?.pomodoro || 25,
-            shortBreak: savedSettings.timerDurations?.shortBreak || 5,
-            longBreak: savedSettings.timerDurations?.longBreak || 15,
-          },
-          longBreakInterval: savedSettings.longBreakInterval || 4,
-          autoStartBreaks: savedSettings.autoStartBreaks || false,
-          autoStartPomodoros: savedSettings.autoStartPomodoros || false,
-          darkMode: savedSettings.darkMode !== undefined ? savedSettings.darkMode : true,
-          sound: {
-            alarmSound: savedSettings.sound?.alarmSound || 'kitty',
-            alarmVolume: savedSettings.sound?.alarmVolume || 80,
-            alarmRepeat: savedSettings.sound?.alarmRepeat || 1,
-            tickingSound: savedSettings.sound?.tickingSound || 'none',
-            tickingVolume: savedSettings.sound?.tickingVolume || 50
-          },
-          lastUpdated: savedSettings.lastUpdated || Date.now()
-        };
-      } catch (error) {
-        console.error('Error parsing settings:', error);
-      }
-    }
-    
-    // Default settings if nothing in localStorage or parse error
-    return {
-      timerDurations: {
-        pomodoro: 25,
-        shortBreak: 5,
-        longBreak: 15,
-      },
-      longBreakInterval: 4,
-      autoStartBreaks: false,
-      autoStartPomodoros: false,
-      darkMode: true,
-      sound: {
-        alarmSound: 'kitty',
-        alarmVolume: 80,
-        alarmRepeat: 1,
-        tickingSound: 'none',
-        tickingVolume: 50
-      },
-      lastUpdated: Date.now()
-    };
-  });
+  // Settings sync with the server when logged in, localStorage stays the cache
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const syncedSettingsRef = useRef<string | null>(null);
+
+  // Pomodoros completed per day, for the daily goal
+  const [dailyLog, setDailyLog] = useState<DailyLog>(loadDailyLog);
 
   // Save active task to localStorage
   useEffect(() => {
@@ -296,7 +164,7 @@ export function App() {
 
   // Save settings to localStorage
   useEffect(() => {
-    localStorage.setItem('pomoSpaceSettings', JSON.stringify(settings));
+    saveSettings(settings);
     // Apply dark mode
     if (settings.darkMode) {
       document.documentElement.classList.add('dark');
@@ -305,15 +173,88 @@ export function App() {
     }
   }, [settings]);
 
-  // Add task history entry when a pomodoro is completed
-  const addTaskToHistory = useCallback((taskId: string, taskName: string, minutes: number, category?: string) => {
+  // Helper function to note what the server has, the base of the next merge
+  const markSettingsSynced = useCallback((serialized: string) => {
+    syncedSettingsRef.current = serialized;
+    saveSyncedSettings(serialized);
+  }, []);
+
+  // Effect to load settings from the server once logged in
+  useEffect(() => {
+    let cancelled = false;
+
+    authApi.getCurrentUser()
+      .then(() => settingsApi.getSettings())
+      .then(({ settings: serverSettings }) => {
+        if (cancelled) return;
+
+        // Nothing saved on the server yet: the settings here go up as they are
+        if (!serverSettings) {
+          console.log('No settings on the server yet, uploading these');
+          setIsLoggedIn(true);
+          return;
+        }
+
+        // Read the cache again, settings may have changed while the request was out.
+        // Changes made here since the last sync are kept over the server's.
+        const local = loadSettings();
+        const base = loadSyncedSettings();
+        markSettingsSynced(JSON.stringify(toServerSettings(fromServerSettings(serverSettings, local))));
+        setSettings(mergeServerSettings(serverSettings, local, base));
+        setIsLoggedIn(true);
+      })
+      .catch(error => {
+        console.log('Not syncing settings with the server:', error.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [markSettingsSynced]);
+
+  // Effect to push settings changes to the server
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    const serverSettings = toServerSettings(settings);
+    const serialized = JSON.stringify(serverSettings);
+    if (serialized === syncedSettingsRef.current) return;
+
+    // Wait for a pause so dragging a slider sends one request, not dozens
+    const timeout = setTimeout(() => {
+      settingsApi.updateSettings(serverSettings)
+        .then(() => {
+          markSettingsSynced(serialized);
+        })
+        .catch(error => {
+          console.error('Error saving settings to the server:', error);
+        });
+    }, SETTINGS_SYNC_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [settings, isLoggedIn, markSettingsSynced]);
+
+  // Entries written in the same millisecond, like pomodoros caught up together,
+  // still need their own ids so adjustments only touch the one they're meant for
+  const historyEntryCountRef = useRef(0);
+  
+  // Add task history entry when a pomodoro is completed, dated by the day it ended
+  const addTaskToHistory = useCallback((
+    taskId: string,
+    taskName: string,
+    minutes: number,
+    endedAt: number,
+    category?: string,
+    details: Partial<TaskHistoryItem> = {}
+  ) => {
     const newHistoryItem: TaskHistoryItem = {
-      id: Date.now().toString(),
+      id: `${Date.now()}-${historyEntryCountRef.current++}`,
       taskId,
       taskName,
-      date: new Date().toISOString().split('T')[0],
+      date: getDayKey(endedAt, settings.dayStartHour),
       minutes,
-      category
+      category,
+      ...details
     };
     
     try {
@@ -331,80 +272,462 @@ export function App() {
     } catch (e) {
       console.error('Error adding task history:', e);
     }
+    
+    return newHistoryItem.id;
+  }, [settings.dayStartHour]);
+  
+  // Take time away off a history entry that's already been written
+  const adjustTaskHistory = useCallback((entryId: string, away: AwayAdjustment) => {
+    try {
+      const savedHistory = localStorage.getItem('pomoSpaceTaskHistory') || '[]';
+      const taskHistory: TaskHistoryItem[] = JSON.parse(savedHistory);
+      
+      const updatedHistory = taskHistory.map(entry => {
+        if (entry.id !== entryId) return entry;
+        
+        const minutes = Math.min(away.minutes, entry.minutes);
+        return {
+          ...entry,
+          minutes: entry.minutes - minutes,
+          awayMinutes: (entry.awayMinutes || 0) + minutes,
+          awayAsBreak: entry.awayAsBreak || away.asBreak
+        };
+      });
+      
+      localStorage.setItem('pomoSpaceTaskHistory', JSON.stringify(updatedHistory));
+      console.log(`Took ${away.minutes} minutes away off task history entry ${entryId}`);
+    } catch (e) {
+      console.error('Error adjusting task history:', e);
+    }
   }, []);
   
+  // Log a session that ended against the active task, returning the history
+  // entry written, if any. The minutes are those actually focused, less any
+  // time away the user chose not to count.
+  const logSessionToActiveTask = useCallback((
+    session: PomodoroSession,
+    kind: SessionKind,
+    away: AwayAdjustment | null = null
+  ): string | null => {
+    const activeTask = tasks.find(task => task.id === activeTaskId);
+    if (!activeTask) return null;
+    
+    // Skips, resets and the stopwatch are only worth logging with time to show for them
+    if (session.minutes === 0 && kind !== 'completed' && kind !== 'abandoned') return null;
+    
+    // Abandoned minutes only count if the user wants them
+    const minutes = kind === 'abandoned' && !settings.logAbandonedMinutes ? 0 : session.minutes;
+    
+    return addTaskToHistory(
+      activeTask.id,
+      activeTask.text,
+      Math.max(0, minutes - (away ? away.minutes : 0)),
+      session.endedAt,
+      activeTask.category,
+      {
+        ...SESSION_DETAILS[kind],
+        ...(kind !== 'stopwatch' && { extendedMinutes: session.extendedMinutes, interruptions: session.interruptions }),
+        ...(away && { awayMinutes: Math.min(away.minutes, session.minutes), awayAsBreak: away.asBreak })
+      }
+    );
+  }, [tasks, activeTaskId, addTaskToHistory, settings.logAbandonedMinutes]);
+  
   // Handler for when a pomodoro is completed
-  const handlePomodoroComplete = useCallback(() => {
-    if (activeTaskId) {
-      // Get the task details
-      try {
-        const savedTasks = localStorage.getItem('pomoSpaceTasks') || '[]';
-        const tasks: TaskItem[] = JSON.parse(savedTasks);
-        
-        const activeTask = tasks.find(task => task.id === activeTaskId);
-        
-        if (activeTask) {
-          // Add to task history
-          addTaskToHistory(
-            activeTask.id,
-            activeTask.text,
-            settings.timerDurations.pomodoro,
-            activeTask.category
-          );
-          
-          // Update the task's completed pomodoros count
-          const updatedTasks = tasks.map(task => 
-            task.id === activeTaskId 
-              ? { ...task, completedPomodoros: task.completedPomodoros + 1 }
-              : task
-          );
-          
-          // Save updated tasks
-          localStorage.setItem('pomoSpaceTasks', JSON.stringify(updatedTasks));
-        }
-      } catch (e) {
-        console.error('Error updating task after pomodoro completion:', e);
+  // Returns the task history entry written, if there was an active task
+  const handlePomodoroComplete = useCallback((session: PomodoroSession, away: AwayAdjustment | null = null): string | null => {
+    // Count it towards the day it ended on, whether or not a task was active
+    setDailyLog(recordDailyPomodoro(loadDailyLog(), session.endedAt, settings.dayStartHour, settings.dailyGoal));
+    
+    const entryId = logSessionToActiveTask(session, 'completed', away);
+    
+    // Update the task's completed pomodoros count
+    if (entryId) {
+      setTasks(prev => prev.map(task => 
+        task.id === activeTaskId 
+          ? { ...task, completedPomodoros: task.completedPomodoros + 1 }
+          : task
+      ));
+    }
+    
+    return entryId;
+  }, [activeTaskId, logSessionToActiveTask, setTasks, settings.dayStartHour, settings.dailyGoal]);
+  
+  // Handle timer mode change
+  const handleTimerModeChange = useCallback((mode: string, isManual: boolean = false) => {
+    console.log(`Timer mode changed to: ${mode} (Manual: ${isManual})`);
+    setTimerMode(mode);
+    
+    // Store in localStorage for cross-tab synchronization
+    localStorage.setItem('pomoSpaceTimerMode', mode);
+  }, []);
+  
+  // Time away from a running pomodoro, once the user has said not to count it,
+  // comes off the pomodoro when it completes. A pomodoro that completes before
+  // they've answered is logged in full and its history entry adjusted afterwards.
+  const pendingAwayRef = useRef<AwayAdjustment | null>(null);
+  const completedWhileAwayRef = useRef<{ entryId: string; session: PomodoroSession }[]>([]);
+  const isAwayPendingRef = useRef(false);
+  
+  const handleTimerComplete = (session: PomodoroSession) => {
+    const entryId = handlePomodoroComplete(session, pendingAwayRef.current);
+    pendingAwayRef.current = null;
+    
+    if (entryId && isAwayPendingRef.current) {
+      completedWhileAwayRef.current.push({ entryId, session });
+    }
+  };
+  
+  // The timer runs here rather than in PomodoroTimer, so it keeps ringing and
+  // logging while another page is shown
+  const timer = useTimer({
+    onComplete: handleTimerComplete,
+    // A skipped pomodoro logs the time spent, but doesn't count as completed
+    onSkip: session => logSessionToActiveTask(session, 'skipped'),
+    onStopwatchStop: session => logSessionToActiveTask(session, 'stopwatch'),
+    // A pomodoro left paused past the timeout
+    onAbandon: session => logSessionToActiveTask(session, 'abandoned'),
+    // A pomodoro reset with the minutes so far kept
+    onPartial: session => logSessionToActiveTask(session, 'partial'),
+    onPhaseComplete: (completedType, nextType) => {
+      playAlarmSound(settings.sound);
+      notifyPhaseComplete(completedType, nextType);
+    },
+    onOvertimeStart: () => playAlarmSound(settings.sound),
+    settings
+  });
+  
+  const {
+    completionNotice,
+    notifyPhaseComplete,
+    handleNotificationAction,
+    dismissCompletionNotice
+  } = usePhaseNotifications(timer, settings.notifications, activeTaskId ? activeTaskName : null);
+  
+  // The tab title and favicon follow the timer on every page, not just the timer's
+  useTabIndicator({
+    time: getDisplayTime(timer),
+    timerType: timer.timerType,
+    status: timer.status,
+    progress: getPhaseProgress(timer),
+    taskName: activeTaskId ? activeTaskName : null
+  });
+  
+  const { timerType, changeTimerType } = timer;
+  
+  // Last mode the UI and the timer agreed on, so we can tell which side changed
+  const syncedModeRef = useRef(timerMode);
+  
+  // Effect to switch the timer when the mode is changed in the UI
+  useEffect(() => {
+    if (timerMode === syncedModeRef.current) return;
+    syncedModeRef.current = timerMode;
+    
+    const newType = timerMode as TimerType;
+    if (newType !== timerType) {
+      console.log(`Timer mode UI change detected: from ${timerType} to ${newType}`);
+      changeTimerType(newType);
+    }
+  }, [timerMode, timerType, changeTimerType]);
+  
+  // Effect to follow phase transitions made by the timer itself (completion, auto-start, reload)
+  useEffect(() => {
+    if (timerType === syncedModeRef.current) return;
+    
+    console.log(`Timer moved to ${timerType}, updating UI mode`);
+    syncedModeRef.current = timerType;
+    handleTimerModeChange(timerType);
+  }, [timerType, handleTimerModeChange]);
+  
+  // Timer type an action link asked to start, started once the timer has switched to it
+  const [pendingStart, setPendingStart] = useState<TimerType | null>(null);
+  
+  // Effect to carry out action links like /timer?start=pomodoro&task=<id>,
+  // then drop the parameters so a reload doesn't do it again
+  useEffect(() => {
+    if (route.page !== 'timer' || (!route.start && !route.taskId)) return;
+    
+    if (route.taskId) {
+      const task = tasks.find(item => item.id === route.taskId);
+      if (task && !task.completed) {
+        setActiveTaskId(task.id);
+      } else {
+        console.warn(`Action link names a task that doesn't exist or is done: ${route.taskId}`);
       }
     }
-  }, [activeTaskId, settings.timerDurations.pomodoro, addTaskToHistory]);
+    
+    if (route.start) {
+      console.log(`Action link starting ${route.start}`);
+      handleTimerModeChange(route.start, true);
+      setPendingStart(route.start);
+    }
+    
+    navigate({ page: 'timer' }, true);
+  }, [route, tasks, handleTimerModeChange, navigate]);
+  
+  const { status: timerStatus, startTimer, startFocusPlan } = timer;
+  
+  // Effect to start the timer an action link asked for
+  useEffect(() => {
+    if (pendingStart === null || timerType !== pendingStart) return;
+    
+    setPendingStart(null);
+    if (timerStatus !== 'running' && timerStatus !== 'overtime') {
+      startTimer();
+    }
+  }, [pendingStart, timerType, timerStatus, startTimer]);
+  
+  // Handler for a scheduled focus block beginning: run a focus plan until the
+  // block ends, on the block's task if it still has one
+  const handleFocusBlockStart = useCallback((block: ScheduledBlock, occurrence: ScheduledBlockOccurrence) => {
+    if (block.taskId) {
+      const task = tasks.find(item => item.id === block.taskId);
+      if (task && !task.completed) {
+        setActiveTaskId(task.id);
+      }
+    }
+    
+    if (timerStatus === 'idle' || timerStatus === 'completed') {
+      startFocusPlan(occurrence.endsAt);
+      return;
+    }
+    
+    // Something is already counting: a pomodoro carries on, anything else
+    // gives way to one the way an action link does
+    if (timerType !== 'pomodoro') {
+      handleTimerModeChange('pomodoro', true);
+      setPendingStart('pomodoro');
+    }
+  }, [tasks, timerStatus, timerType, startFocusPlan, handleTimerModeChange]);
+  
+  // The tab running the timer starts scheduled blocks and reports missed ones
+  const { missedBlocks, dismissMissedBlocks } = useFocusSchedule(
+    settings.focusSchedule,
+    timer.isLeader,
+    handleFocusBlockStart
+  );
+  
+  // Only the tab running the timer watches for the user going away
+  const isPomodoroInProgress = timerType === 'pomodoro' && timerStatus !== 'idle' && timerStatus !== 'completed';
+  const { isAway, awayPeriod, clearAwayPeriod } = useAwayDetection(
+    timer.isLeader && timerType === 'pomodoro' && (timerStatus === 'running' || timerStatus === 'overtime'),
+    settings.awayThresholdMinutes
+  );
+  isAwayPendingRef.current = isAway || awayPeriod !== null;
+  
+  // Effect to drop time away from a pomodoro that was skipped or reset instead of completing
+  useEffect(() => {
+    if (!isPomodoroInProgress) {
+      pendingAwayRef.current = null;
+    }
+  }, [isPomodoroInProgress]);
+  
+  // Apply the user's answer about time away: to pomodoros that completed
+  // meanwhile, for the part of it they overlapped, and to the one still running
+  const handleAwayChoice = (choice: AwayChoice) => {
+    if (!awayPeriod) return;
+    console.log(`Time away (${getAwayMinutes(awayPeriod)} min) answered with: ${choice}`);
+    
+    completedWhileAwayRef.current.forEach(({ entryId, session }) => {
+      const startedAt = session.endedAt - session.minutes * 60 * 1000;
+      const away = getAwayAdjustment(choice, getAwayMinutesBetween(awayPeriod, startedAt, session.endedAt));
+      if (away) {
+        adjustTaskHistory(entryId, away);
+      }
+    });
+    completedWhileAwayRef.current = [];
+    
+    if (isPomodoroInProgress) {
+      const away = getAwayAdjustment(choice, getAwayMinutesBetween(awayPeriod, Date.now() - timer.elapsed * 1000, awayPeriod.endedAt));
+      pendingAwayRef.current = combineAwayAdjustments(pendingAwayRef.current, away);
+    }
+    
+    clearAwayPeriod();
+  };
+  
+  // Full-screen view with just the countdown, the task and the main button
+  const [focusViewOpen, setFocusViewOpen] = useState(false);
+  
+  const openFocusView = useCallback(() => {
+    setActiveTab('timer');
+    setFocusViewOpen(true);
+  }, [setActiveTab]);
+  
+  const closeFocusView = useCallback(() => setFocusViewOpen(false), []);
+  
+  // Effect to leave the focus view when a break starts
+  const isBreakRunning = timerStatus === 'running' && (timerType === 'shortBreak' || timerType === 'longBreak');
+  useEffect(() => {
+    if (isBreakRunning) {
+      setFocusViewOpen(false);
+    }
+  }, [isBreakRunning]);
+  
+  // "?" opens and closes the shortcut cheat sheet, the other shortcuts belong to the timer and task list
+  useKeyboardShortcuts(settings.keymap, {
+    showShortcuts: () => setShortcutsOpen(open => !open)
+  }, !settingsOpen && !paletteOpen);
+
+  // Effect to open the command palette with Ctrl+K, or Cmd+K on a Mac.
+  // Unlike the other shortcuts it works while typing, since it needs a modifier.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+  
+  // Commands offered by the palette, built on the same handlers as the buttons.
+  // Typing something that isn't a command offers to add it as a task.
+  const getCommands = (query: string): Command[] => {
+    const commands: Command[] = [];
+    
+    const { status, isRunning, isOvertime, startTimer, pauseTimer, finishTimer } = timer;
+    if (isOvertime || (timerType === 'stopwatch' && status === 'paused')) {
+      commands.push({ id: 'timer:finish', title: 'Finish timer', section: 'Timer', keywords: 'stop done', run: finishTimer });
+    }
+    if (isRunning) {
+      commands.push({ id: 'timer:pause', title: 'Pause timer', section: 'Timer', keywords: 'stop', run: pauseTimer });
+    } else if (!isOvertime) {
+      commands.push({ id: 'timer:start', title: status === 'paused' ? 'Resume timer' : 'Start timer', section: 'Timer', keywords: 'play resume', run: startTimer });
+    }
+    
+    (Object.keys(TIMER_MODE_LABELS) as TimerType[]).forEach(mode => {
+      if (mode === timerType) return;
+      commands.push({
+        id: `mode:${mode}`,
+        title: `Switch to ${TIMER_MODE_LABELS[mode]}`,
+        section: 'Timer',
+        keywords: 'mode timer type',
+        run: () => {
+          setActiveTab('timer');
+          handleTimerModeChange(mode, true);
+        }
+      });
+    });
+    
+    tasks.filter(task => !task.completed && task.id !== activeTaskId).forEach(task => {
+      commands.push({
+        id: `task:${task.id}`,
+        title: `Set active task: ${task.text}`,
+        section: 'Tasks',
+        run: () => setActiveTaskId(task.id)
+      });
+    });
+    
+    const newTaskText = query.trim();
+    if (newTaskText) {
+      commands.push({
+        id: 'task:add',
+        title: `Add task: ${newTaskText}`,
+        section: 'Tasks',
+        keywords: 'new create',
+        transient: true,
+        run: () => {
+          addTask(newTaskText, { category: 'Work', priority: 'medium' });
+          setActiveTab('timer');
+        }
+      });
+    }
+    
+    REPORT_TABS.forEach(tab => {
+      commands.push({
+        id: `reports:${tab}`,
+        title: `Open ${REPORT_TAB_LABELS[tab]} report`,
+        section: 'Reports',
+        keywords: 'reports stats',
+        run: () => navigate({ ...reportsRouteRef.current, tab })
+      });
+    });
+    
+    commands.push(
+      {
+        id: 'reports:exportCsv',
+        title: 'Export task history as CSV',
+        section: 'Reports',
+        keywords: 'download spreadsheet',
+        run: downloadTaskHistoryCSV
+      },
+      {
+        id: 'app:darkMode',
+        title: settings.darkMode ? 'Turn dark mode off' : 'Turn dark mode on',
+        section: 'Appearance',
+        keywords: 'toggle theme light',
+        run: () => setSettings(prev => ({ ...prev, darkMode: !prev.darkMode }))
+      },
+      {
+        id: 'view:focus',
+        title: 'Open focus view',
+        section: 'Timer',
+        keywords: 'fullscreen distraction free zen',
+        run: openFocusView
+      },
+      {
+        id: 'app:settings',
+        title: 'Open settings',
+        section: 'App',
+        keywords: 'preferences',
+        run: openSettings
+      },
+      {
+        id: 'app:shortcuts',
+        title: 'Show keyboard shortcuts',
+        section: 'App',
+        keywords: 'keys help',
+        run: () => setShortcutsOpen(true)
+      }
+    );
+    
+    return commands;
+  };
   
   // Preload sounds
   useEffect(() => {
     preloadSounds();
   }, []);
   
-  // Synchronize with timer state in localStorage when tab becomes visible
+  // Notification buttons are handled by the service worker, so make sure it's
+  // there even in development, where it isn't registered at startup
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        try {
-          const savedState = localStorage.getItem('pomoSpaceTimerState');
-          if (savedState) {
-            const parsed = JSON.parse(savedState);
-            if (parsed.timerMode && parsed.timerMode !== timerMode) {
-              setTimerMode(parsed.timerMode);
-            }
-          }
-        } catch (e) {
-          console.error('Error synchronizing with timer state:', e);
-        }
+    if (settings.notifications && getNotificationPermission() === 'granted') {
+      registerServiceWorker();
+    }
+  }, [settings.notifications]);
+  
+  // Follow the active task chosen in other tabs, so the leader tab logs
+  // completed pomodoros against the right task, and the daily count it keeps.
+  // The timer itself syncs in useTimer.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === DAILY_LOG_KEY) {
+        setDailyLog(loadDailyLog());
+        return;
+      }
+      
+      if (event.key !== 'pomoSpaceActiveTask') return;
+      
+      try {
+        setActiveTaskId(event.newValue ? JSON.parse(event.newValue) : null);
+      } catch (e) {
+        console.error('Error synchronizing active task:', e);
       }
     };
     
-    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('storage', handleStorage);
     
     return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('storage', handleStorage);
     };
-  }, [timerMode]);
+  }, []);
 
-  // Handle timer mode change
-  const handleTimerModeChange = useCallback((mode: string, isManual: boolean = false) => {
-    console.log(`Timer mode changed to: ${mode} (Manual: ${isManual})`);
-    setTimerMode(mode);
-    
-    // Store in localStorage for cross-tab synchronization
-    localStorage.setItem('pomoSpaceTimerMode', mode);
+  // Switch to a timer preset from the timer card
+  const handleSelectPreset = useCallback((presetId: string) => {
+    console.log(`Switching to timer preset: ${presetId}`);
+    setSettings(prev => applyPreset(prev, presetId));
   }, []);
 
   // Get background color based on timer mode
@@ -417,6 +740,8 @@ export function App() {
         return mode === 'dark' ? 'bg-violet-900' : 'bg-violet-600';
       case 'longBreak':
         return mode === 'dark' ? 'bg-teal-900' : 'bg-teal-600';
+      case 'stopwatch':
+        return mode === 'dark' ? 'bg-slate-900' : 'bg-slate-600';
       default:
         return mode === 'dark' ? 'bg-indigo-900' : 'bg-indigo-600';
     }
@@ -434,44 +759,77 @@ export function App() {
 
   return (
     <div className={`flex flex-col min-h-screen w-full transition-colors duration-300 ${getBgColor()} ${settings.darkMode ? 'dark' : ''}`}>
-      <Navigation 
-        activeTab={activeTab} 
-        onTabChange={setActiveTab} 
-        onSettingsClick={() => setSettingsOpen(true)} 
-        darkMode={settings.darkMode} 
-      />
-      <div className="container mx-auto px-6 py-8 max-w-2xl">
+      {focusViewOpen ? (
+        <FocusView 
+          timer={timer} 
+          taskName={activeTaskId ? activeTaskName : null} 
+          keymap={settings.keymap} 
+          shortcutsEnabled={!settingsOpen && !shortcutsOpen && !paletteOpen}
+          onClose={closeFocusView} 
+        />
+      ) : (
+        <Navigation 
+          activeTab={activeTab} 
+          onTabChange={setActiveTab} 
+          onSettingsClick={openSettings} 
+          darkMode={settings.darkMode} 
+        />
+      )}
+      {/* Kept mounted behind the focus view, so the tab title keeps updating */}
+      <div className={`container mx-auto px-6 py-8 max-w-2xl ${focusViewOpen ? 'hidden' : ''}`}>
         <main className="flex flex-col items-center w-full">
-          {/* Show loading indicator when settings are being loaded */}
-          {isLoading ? (
-            <div className="w-full bg-white/10 backdrop-blur-sm rounded-lg p-6 shadow-lg flex justify-center items-center h-[300px]">
-              <div className="text-white text-xl">Loading timer...</div>
-            </div>
-          ) : (
+          {activeTab === 'timer' && (
             <>
-              {activeTab === 'timer' && (
-                <>
-                  <PomodoroTimer 
-                    timerMode={timerMode} 
-                    setTimerMode={handleTimerModeChange} 
-                    settings={settings}
-                    onPomodoroComplete={handlePomodoroComplete}
-                  />
-                  <TaskList 
-                    timerMode={timerMode}
-                    darkMode={settings.darkMode}
-                    activeTaskId={activeTaskId}
-                    setActiveTaskId={setActiveTaskId}
-                  />
-                </>
-              )}
-              
-              {activeTab === 'reports' && <ReportsPage darkMode={settings.darkMode} />}
+              <MissedFocusBlocks 
+                missedBlocks={missedBlocks} 
+                onDismiss={dismissMissedBlocks} 
+              />
+              <PomodoroTimer 
+                setTimerMode={handleTimerModeChange} 
+                settings={settings}
+                timer={timer}
+                completionNotice={completionNotice}
+                onNotificationAction={handleNotificationAction}
+                onDismissCompletionNotice={dismissCompletionNotice}
+                onSelectPreset={handleSelectPreset}
+                onOpenFocusView={openFocusView}
+                completedToday={(dailyLog[getDayKey(Date.now(), settings.dayStartHour)] || { completed: 0 }).completed}
+                activeTaskName={activeTaskId ? activeTaskName : null}
+                shortcutsEnabled={!settingsOpen && !shortcutsOpen && !paletteOpen && !focusViewOpen}
+              />
+              <ErrorBoundary name="task list">
+                <TaskList 
+                  timerMode={timerMode}
+                  darkMode={settings.darkMode}
+                  tasks={tasks}
+                  setTasks={setTasks}
+                  activeTaskId={activeTaskId}
+                  setActiveTaskId={setActiveTaskId}
+                  keymap={settings.keymap}
+                  shortcutsEnabled={!settingsOpen && !shortcutsOpen && !paletteOpen && !focusViewOpen}
+                />
+              </ErrorBoundary>
             </>
           )}
           
+          {activeTab === 'reports' && (
+            <ErrorBoundary name="reports">
+              <ReportsPage 
+                darkMode={settings.darkMode} 
+                dayStartHour={settings.dayStartHour} 
+                activeTab={reportsRoute.tab} 
+                onTabChange={tab => navigate({ ...reportsRoute, tab })} 
+                timeRange={reportsRoute.range} 
+                onTimeRangeChange={range => navigate({ ...reportsRoute, range })} 
+              />
+            </ErrorBoundary>
+          )}
+          
           {/* Footer with credits */}
           <footer className="text-center text-white/70 py-4 mt-8">
+            <p className="text-xs mb-2">
+              Press <kbd className="px-1.5 py-0.5 rounded bg-white/10 font-mono">{formatKey(settings.keymap.showShortcuts)}</kbd> for keyboard shortcuts, <kbd className="px-1.5 py-0.5 rounded bg-white/10 font-mono">Ctrl K</kbd> for commands
+            </p>
             <p className="text-sm">
               Made with ❤️ by <a href="https://www.linkedin.com/in/jonah-serna/" target="_blank" rel="noopener noreferrer" className="underline hover:text-white transition-colors">Jonah Serna</a>
             </p>
@@ -480,9 +838,27 @@ export function App() {
       </div>
       <SettingsModal 
         isOpen={settingsOpen} 
-        onClose={() => setSettingsOpen(false)} 
+        onClose={closeSettings} 
         settings={settings} 
         onSettingsChange={setSettings} 
+        tasks={tasks} 
+      />
+      <ShortcutsModal 
+        isOpen={shortcutsOpen} 
+        onClose={closeShortcuts} 
+        keymap={settings.keymap} 
+        darkMode={settings.darkMode} 
+      />
+      <CommandPalette 
+        isOpen={paletteOpen} 
+        onClose={closePalette} 
+        getCommands={getCommands} 
+        darkMode={settings.darkMode} 
+      />
+      <AwayPrompt 
+        awayPeriod={awayPeriod} 
+        onChoose={handleAwayChoice} 
+        darkMode={settings.darkMode} 
       />
       <SpeedInsights />
     </div>
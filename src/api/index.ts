@@ -3,6 +3,7 @@
  * 
  * This module handles all API communication with the backend services
  */
+import type { ServerSettings } from '../utils/serverSettings';
 
 // API configuration
 const API_CONFIG = {
@@ -61,9 +62,11 @@ export const authApi = {
 
 // Settings API
 export const settingsApi = {
-  getSettings: () => fetchApi('/settings'),
+  // settings is null until the user's settings are first saved
+  getSettings: (): Promise<{ settings: ServerSettings | null }> => fetchApi('/settings'),
   
-  updateSettings: (settings: any) => fetchApi('/settings', 'PUT', settings),
+  updateSettings: (settings: Partial<ServerSettings>): Promise<{ settings: ServerSettings }> =>
+    fetchApi('/settings', 'PUT', settings),
 };
 
 // Tasks API
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AwayChoice, AwayPeriod, getAwayMinutes } from '../utils/awayTime';
+
+interface AwayPromptProps {
+  awayPeriod: AwayPeriod | null;
+  onChoose: (choice: AwayChoice) => void;
+  darkMode: boolean;
+}
+
+// Asks what the time away from a running pomodoro was. There's no way to
+// dismiss it without answering, the history waits on it.
+export const AwayPrompt: React.FC<AwayPromptProps> = ({
+  awayPeriod,
+  onChoose,
+  darkMode
+}) => {
+  if (!awayPeriod) return null;
+
+  const minutes = getAwayMinutes(awayPeriod);
+  const buttonClass = `px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+    darkMode ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        className={`${darkMode ? 'bg-gray-800' : 'bg-white/90 backdrop-blur-sm'} rounded-lg w-full max-w-sm`}
+        role="alertdialog"
+        aria-labelledby="away-prompt-title"
+      >
+        <div className={`p-4 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <h2 id="away-prompt-title" className={`text-xl font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+            Welcome back
+          </h2>
+        </div>
+        <p className={`p-4 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          You were away {minutes} min – keep, discard, or mark as a break?
+        </p>
+        <div className="px-4 pb-4 flex justify-end gap-2">
+          <button className={buttonClass} onClick={() => onChoose('keep')}>
+            Keep
+          </button>
+          <button className={buttonClass} onClick={() => onChoose('discard')}>
+            Discard
+          </button>
+          <button
+            className="px-3 py-2 rounded-md text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            onClick={() => onChoose('break')}
+          >
+            Mark as break
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,63 +1,46 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState } from 'react';
+import { createTimerMachine, createMemoryTimerStorage } from '../utils/timerMachine';
+import { useTimerMachine } from '../hooks/useTimerMachine';
+
+// A single one-minute phase that never auto-starts anything
+const BASIC_TIMER_SETTINGS = {
+  timerDurations: { pomodoro: 1, shortBreak: 1, longBreak: 1 },
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartPomodoros: false
+};
 
 const BasicTimer: React.FC = () => {
-  const [count, setCount] = useState(60);
-  const [isRunning, setIsRunning] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [machine] = useState(() => createTimerMachine({
+    settings: BASIC_TIMER_SETTINGS,
+    storage: createMemoryTimerStorage()
+  }));
+  const { state, timeRemaining } = useTimerMachine(machine);
   
-  // Start the timer
-  const startTimer = () => {
-    if (intervalRef.current !== null) return;
-    
-    setIsRunning(true);
-    intervalRef.current = setInterval(() => {
-      setCount(prevCount => {
-        if (prevCount <= 1) {
-          stopTimer();
-          return 0;
-        }
-        return prevCount - 1;
-      });
-    }, 1000);
-    
-    console.log('Timer started, interval ID:', intervalRef.current);
-  };
+  const isRunning = state.status === 'running';
   
-  // Stop the timer
-  const stopTimer = () => {
-    if (intervalRef.current === null) return;
-    
-    clearInterval(intervalRef.current);
-    intervalRef.current = null;
-    setIsRunning(false);
-    console.log('Timer stopped');
-  };
-  
-  // Reset the timer
-  const resetTimer = () => {
-    stopTimer();
-    setCount(60);
-    console.log('Timer reset');
-  };
+  // Once the phase is done we stay at zero until reset
+  const count = state.status === 'completed' ? 0 : timeRemaining;
   
   // Toggle the timer
   const toggleTimer = () => {
     if (isRunning) {
-      stopTimer();
-    } else {
-      startTimer();
+      machine.send({ type: 'pause' });
+      console.log('Timer stopped');
+    } else if (state.status === 'paused') {
+      machine.send({ type: 'resume' });
+    } else if (state.status === 'idle') {
+      machine.send({ type: 'start' });
+      console.log('Timer started');
     }
   };
   
-  // Clean up on unmount
-  useEffect(() => {
-    return () => {
-      if (intervalRef.current !== null) {
-        clearInterval(intervalRef.current);
-        console.log('Timer cleaned up on unmount');
-      }
-    };
-  }, []);
+  // Reset the timer
+  const resetTimer = () => {
+    machine.send({ type: 'switchType', timerType: 'pomodoro' });
+    machine.send({ type: 'reset' });
+    console.log('Timer reset');
+  };
   
   return (
     <div className="bg-gray-800 rounded-lg p-6 m-4 w-64 mx-auto">
@@ -83,4 +66,4 @@ const BasicTimer: React.FC = () => {
   );
 };
 
-export default BasicTimer; 
\ No newline at end of file
+export default BasicTimer; 
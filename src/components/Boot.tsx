@@ -0,0 +1,17 @@
+import React, { useState } from 'react';
+import { App } from '../App';
+import { RecoveryScreen } from './RecoveryScreen';
+import { runBootChecks } from '../utils/storageRecovery';
+
+// Checks the stored data before the app reads any of it, and asks the user
+// what to do about values that couldn't be read before starting the app
+export const Boot: React.FC = () => {
+  const [quarantine] = useState(runBootChecks);
+  const [isRecovering, setIsRecovering] = useState(quarantine.length > 0);
+
+  if (isRecovering) {
+    return <RecoveryScreen quarantine={quarantine} onDone={() => setIsRecovering(false)} />;
+  }
+
+  return <App />;
+};
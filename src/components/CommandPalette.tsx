@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SearchIcon } from 'lucide-react';
+import { Command, loadRecentCommands, rankCommands, saveRecentCommand } from '../utils/commands';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  getCommands: (query: string) => Command[];
+  darkMode: boolean;
+}
+
+// Most commands listed at once, the rest are a few letters away
+const MAX_RESULTS = 50;
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  isOpen,
+  onClose,
+  getCommands,
+  darkMode
+}) => {
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [recent, setRecent] = useState<string[]>(loadRecentCommands);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Effect to start each opening from scratch
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSelectedIndex(0);
+      setRecent(loadRecentCommands());
+    }
+  }, [isOpen]);
+
+  // Effect to keep the selected command in view
+  useEffect(() => {
+    const selected = listRef.current?.children[selectedIndex];
+    if (selected instanceof HTMLElement) {
+      selected.scrollIntoView({ block: 'nearest' });
+    }
+  }, [selectedIndex]);
+
+  if (!isOpen) return null;
+
+  const results = rankCommands(getCommands(query), query, recent).slice(0, MAX_RESULTS);
+  // Recent commands ranked first are labelled as such
+  const firstNotRecent = results.findIndex(command => !recent.includes(command.id) || !!command.transient);
+  const recentCount = firstNotRecent === -1 ? results.length : firstNotRecent;
+
+  // Run a command, remembering it for next time
+  const runCommand = (command: Command) => {
+    if (!command.transient) {
+      setRecent(saveRecentCommand(command.id));
+    }
+    onClose();
+    command.run();
+  };
+
+  // Helper function to move the selection, wrapping around at either end
+  const moveSelection = (step: number) => {
+    if (results.length === 0) return;
+    setSelectedIndex(index => (index + step + results.length) % results.length);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      moveSelection(1);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      moveSelection(-1);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const command = results[selectedIndex];
+      if (command) runCommand(command);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        className={`${darkMode ? 'bg-gray-800' : 'bg-white/90 backdrop-blur-sm'} rounded-lg w-full max-w-lg shadow-xl overflow-hidden`}
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Command palette"
+      >
+        <div className={`flex items-center gap-2 px-4 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <SearchIcon size={18} className={darkMode ? 'text-gray-400' : 'text-gray-500'} />
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={e => {
+              setQuery(e.target.value);
+              setSelectedIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or a task name..."
+            className={`w-full py-3 bg-transparent focus:outline-none ${darkMode ? 'text-white placeholder-gray-500' : 'text-gray-800 placeholder-gray-400'}`}
+            aria-label="Search commands"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className={`p-4 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            No matching commands
+          </p>
+        ) : (
+          <ul ref={listRef} className="max-h-80 overflow-y-auto py-2" role="listbox">
+            {results.map((command, index) => (
+              <li
+                key={command.id}
+                role="option"
+                aria-selected={index === selectedIndex}
+                className={`flex justify-between items-center px-4 py-2 cursor-pointer ${
+                  index === selectedIndex
+                    ? darkMode ? 'bg-gray-700' : 'bg-indigo-100'
+                    : ''
+                }`}
+                onMouseMove={() => setSelectedIndex(index)}
+                onClick={() => runCommand(command)}
+              >
+                <span className={darkMode ? 'text-white' : 'text-gray-800'}>{command.title}</span>
+                <span className={`text-xs ml-4 flex-shrink-0 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {index < recentCount ? 'Recent' : command.section}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { downloadUserData } from '../utils/dataUtils';
+
+interface ErrorBoundaryProps {
+  name: string; // What failed to show, e.g. "task list"
+  children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+// Keeps a failing part of the page from taking the whole app down with it.
+// React only supports catching render errors in a class component.
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error(`Error showing the ${this.props.name}:`, error, info.componentStack);
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+
+    return (
+      <div className="w-full bg-white/10 backdrop-blur-sm rounded-lg p-6 shadow-lg text-white text-center my-4">
+        <p className="font-medium">Something went wrong showing the {this.props.name}.</p>
+        <p className="text-sm text-white/70 mt-1">The timer still works. Your data is untouched, export it if the problem persists.</p>
+        <div className="flex justify-center gap-2 mt-4">
+          <button
+            className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors"
+            onClick={() => this.setState({ error: null })}
+          >
+            Try again
+          </button>
+          <button
+            className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors"
+            onClick={downloadUserData}
+          >
+            Export data
+          </button>
+        </div>
+      </div>
+    );
+  }
+}
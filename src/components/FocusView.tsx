@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { PlayIcon, PauseIcon, CheckIcon, Maximize2Icon, Minimize2Icon, XIcon } from 'lucide-react';
+import type { TimerControls, TimerType } from '../hooks/useTimer';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { Keymap } from '../utils/keymap';
+import { getDisplayTime, getPhaseProgress } from '../utils/timeFormat';
+
+interface FocusViewProps {
+  timer: TimerControls;
+  taskName: string | null;
+  keymap: Keymap;
+  shortcutsEnabled?: boolean;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<TimerType, string> = {
+  pomodoro: 'Focus Time',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+  stopwatch: 'Stopwatch'
+};
+
+// Progress ring geometry, in SVG units
+const RING_RADIUS = 45;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+export const FocusView: React.FC<FocusViewProps> = ({
+  timer,
+  taskName,
+  keymap,
+  shortcutsEnabled = true,
+  onClose
+}) => {
+  const { timerType, isRunning, isOvertime, toggleTimer } = timer;
+  const progress = getPhaseProgress(timer);
+
+  const canFullscreen = document.fullscreenEnabled;
+  const [isFullscreen, setIsFullscreen] = useState(() => document.fullscreenElement !== null);
+
+  // Effect to follow full screen being left with the browser's own controls
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement !== null);
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  // Effect to leave full screen along with the focus view
+  useEffect(() => {
+    return () => {
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(error => console.error('Error leaving full screen:', error));
+      }
+    };
+  }, []);
+
+  // Start and pause stay on the keyboard, the other shortcuts are off in here
+  useKeyboardShortcuts(keymap, { toggleTimer }, shortcutsEnabled);
+
+  // Effect to close on Escape, unless a dialog on top took it.
+  // In full screen the browser takes Escape to leave it first.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !event.defaultPrevented) {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Full screen has to be asked for from a click, browsers refuse it otherwise
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(error => console.error('Error leaving full screen:', error));
+    } else {
+      document.documentElement.requestFullscreen().catch(error => console.error('Error entering full screen:', error));
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center w-full px-6 py-8 text-white">
+      <div className="fixed top-4 right-4 flex gap-2">
+        {canFullscreen && (
+          <button
+            className="bg-white/10 hover:bg-white/20 p-2 rounded-md transition-colors"
+            onClick={toggleFullscreen}
+            title={isFullscreen ? 'Leave full screen' : 'Full screen'}
+          >
+            {isFullscreen ? <Minimize2Icon size={20} /> : <Maximize2Icon size={20} />}
+          </button>
+        )}
+        <button
+          className="bg-white/10 hover:bg-white/20 p-2 rounded-md transition-colors"
+          onClick={onClose}
+          title="Leave focus view"
+        >
+          <XIcon size={20} />
+        </button>
+      </div>
+
+      {/* Countdown inside the progress ring */}
+      <div className="relative w-72 h-72 sm:w-96 sm:h-96">
+        <svg className="absolute inset-0 w-full h-full -rotate-90" viewBox="0 0 100 100" aria-hidden="true">
+          <circle cx="50" cy="50" r={RING_RADIUS} fill="none" stroke="currentColor" strokeWidth="3" className="text-white/15" />
+          <circle
+            cx="50"
+            cy="50"
+            r={RING_RADIUS}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="3"
+            strokeLinecap="round"
+            strokeDasharray={RING_CIRCUMFERENCE}
+            strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+            className={`${isOvertime ? 'text-amber-200' : 'text-white/90'} transition-[stroke-dashoffset] duration-1000 ease-linear`}
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          <div className={`text-6xl sm:text-8xl font-bold tabular-nums ${isOvertime ? 'text-amber-200' : ''}`}>
+            {getDisplayTime(timer)}
+          </div>
+          <div className="mt-2 text-white/80 text-lg">
+            {isOvertime ? 'Overtime' : PHASE_LABELS[timerType]}
+          </div>
+        </div>
+      </div>
+
+      {taskName && (
+        <p className="mt-8 text-xl sm:text-2xl text-white/90 text-center max-w-xl break-words">
+          {taskName}
+        </p>
+      )}
+
+      <button
+        className="mt-10 bg-white/90 hover:bg-white text-gray-800 px-8 py-3 rounded-md font-bold text-lg transition-colors flex items-center"
+        onClick={toggleTimer}
+      >
+        {isOvertime ? (
+          <>
+            <CheckIcon className="mr-2" size={24} /> FINISH
+          </>
+        ) : isRunning ? (
+          <>
+            <PauseIcon className="mr-2" size={24} /> PAUSE
+          </>
+        ) : (
+          <>
+            <PlayIcon className="mr-2" size={24} /> START
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { ScheduledBlockOccurrence, formatOccurrence } from '../utils/focusSchedule';
+
+interface MissedFocusBlocksProps {
+  missedBlocks: ScheduledBlockOccurrence[];
+  onDismiss: () => void;
+}
+
+// Scheduled focus blocks that passed while the app was closed
+export const MissedFocusBlocks: React.FC<MissedFocusBlocksProps> = ({
+  missedBlocks,
+  onDismiss
+}) => {
+  if (missedBlocks.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-6 px-4 py-3 rounded-lg bg-white/10 text-white/90 flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex-1">
+        <p className="font-medium">
+          {missedBlocks.length === 1 ? 'A scheduled focus block was missed' : `${missedBlocks.length} scheduled focus blocks were missed`} while PomoSpace was closed
+        </p>
+        <ul className="text-sm text-white/70 mt-1">
+          {missedBlocks.map(occurrence => (
+            <li key={`${occurrence.blockId}-${occurrence.startsAt}`}>{formatOccurrence(occurrence)}</li>
+          ))}
+        </ul>
+      </div>
+      <button
+        className="self-start sm:self-center bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors"
+        onClick={onDismiss}
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+};
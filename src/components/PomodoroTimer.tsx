@@ -1,110 +1,174 @@
-import React, { useEffect } from 'react';
-import { PlayIcon, PauseIcon, RotateCcwIcon } from 'lucide-react';
-import { useTimer, TimerType } from '../hooks/useTimer';
-
-// Declare the SoundPlayer type for TypeScript
-declare global {
-  interface Window {
-    SoundPlayer: {
-      playSound: (soundPath: string, volume?: number, loop?: boolean) => HTMLAudioElement;
-      playAlarm: (soundPath: string, volume?: number, repeatCount?: number) => { stop: () => void };
-    };
-  }
-}
-
-interface Settings {
-  timerDurations: {
-    pomodoro: number;
-    shortBreak: number;
-    longBreak: number;
-  };
-  longBreakInterval: number;
-  autoStartBreaks: boolean;
-  autoStartPomodoros: boolean;
-  darkMode: boolean;
-  sound: {
-    alarmSound: string;
-    alarmVolume: number;
-    alarmRepeat: number;
-    tickingSound: string;
-    tickingVolume: number;
-  };
-  lastUpdated?: number;
-}
+import React, { useEffect, useState } from 'react';
+import { PlayIcon, PauseIcon, RotateCcwIcon, CheckIcon, SkipForwardIcon, PlusIcon, SquareIcon, Maximize2Icon } from 'lucide-react';
+import type { TimerControls, InterruptionKind } from '../hooks/useTimer';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { getAllPresets, getActivePreset } from '../utils/timerPresets';
+import { FocusBlock, planFocusBlocks, getNextTimeOfDay } from '../utils/focusPlan';
+import { formatTime, getDisplayTime } from '../utils/timeFormat';
+import type { NotificationAction, PhaseNotification } from '../utils/notifications';
+import type { Settings } from '../utils/settingsSchema';
 
 interface PomodoroTimerProps {
-  timerMode: string;
   setTimerMode: (mode: string, isManual?: boolean) => void;
   settings: Settings;
-  onPomodoroComplete?: () => void;
-  isManualChange?: boolean;
+  timer: TimerControls;
+  completionNotice?: PhaseNotification | null;
+  onNotificationAction?: (action: NotificationAction) => void;
+  onDismissCompletionNotice?: () => void;
+  onSelectPreset?: (presetId: string) => void;
+  onOpenFocusView?: () => void;
+  completedToday?: number;
+  activeTaskName?: string | null;
+  shortcutsEnabled?: boolean;
 }
 
-// Format time as MM:SS
-const formatTime = (seconds: number): string => {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+// Short label for a planned block
+const getBlockLabel = (block: FocusBlock): string => {
+  const minutes = Math.round(block.duration / 60);
+  const name = block.type === 'pomodoro' ? 'Focus' : block.type === 'longBreak' ? 'Long' : 'Break';
+  return `${name} ${minutes}m`;
 };
 
+// Format a timestamp as a local HH:MM
+const formatClockTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+// Minutes added by the extend button
+const EXTEND_MINUTES = 5;
+
 export const PomodoroTimer: React.FC<PomodoroTimerProps> = ({
-  timerMode,
   setTimerMode,
   settings,
-  onPomodoroComplete,
-  isManualChange = false
+  timer,
+  completionNotice = null,
+  onNotificationAction,
+  onDismissCompletionNotice,
+  onSelectPreset,
+  onOpenFocusView,
+  completedToday,
+  activeTaskName = null,
+  shortcutsEnabled = true
 }) => {
-  // Use our timer hook with the isolatedTimerStates option enabled
+  // The timer itself lives in App, so it keeps going on other pages
   const {
-    timeRemaining,
     isRunning,
+    isOvertime,
+    status,
+    elapsed,
     timerType,
     completedPomodoros,
-    startTimer,
-    pauseTimer,
+    interruptionCount,
+    currentInterruption,
+    pendingAutoStartType,
+    autoStartCountdown,
+    toggleTimer,
+    logInterruption,
     resetTimer,
-    changeTimerType
-  } = useTimer({
-    onComplete: onPomodoroComplete,
-    settings: settings,
-    settingsLastUpdated: settings.lastUpdated
-  });
-
-  // Helper to play alarm sound when timer completes
-  const playAlarmSound = () => {
-    if (window.SoundPlayer) {
-      const alarmPath = `/sounds/alarm-${settings.sound.alarmSound}.mp3`;
-      const volume = settings.sound.alarmVolume / 100;
-      const repeats = settings.sound.alarmRepeat || 1;
-      
-      console.log(`Playing alarm sound: ${alarmPath} (volume: ${volume}, repeats: ${repeats})`);
-      window.SoundPlayer.playAlarm(alarmPath, volume, repeats);
-    }
+    skipPhase,
+    extendPhase,
+    finishTimer,
+    cancelAutoStart,
+    focusPlan,
+    startFocusPlan,
+    cancelFocusPlan
+  } = timer;
+
+  // End time picked for a "focus until" plan, as HH:MM
+  const [focusUntil, setFocusUntil] = useState('');
+  const focusUntilAt = focusUntil ? getNextTimeOfDay(focusUntil, Date.now()) : null;
+  const canPlan = !focusPlan && timerType !== 'stopwatch' && (status === 'idle' || status === 'completed');
+  
+  // Preview of the blocks the plan would run
+  const plannedBlocks = canPlan && focusUntilAt !== null
+    ? planFocusBlocks(Date.now(), focusUntilAt, settings, completedPomodoros)
+    : [];
+
+  // Start running the previewed plan
+  const handleStartFocusPlan = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (focusUntilAt === null || plannedBlocks.length === 0) return;
+    
+    startFocusPlan(focusUntilAt);
+    setFocusUntil('');
   };
 
-  // Handle timer mode changes with clear logging
+  // Draft of the interruption explaining the current pause
+  const [interruptionKind, setInterruptionKind] = useState<InterruptionKind>('external');
+  const [interruptionNote, setInterruptionNote] = useState('');
+  const isInterrupted = status === 'paused' && timerType === 'pomodoro';
+
+  // Start each pause with an empty draft
   useEffect(() => {
-    // Convert string timerMode to TimerType
-    const newType = timerMode as TimerType;
+    if (!isInterrupted) {
+      setInterruptionKind('external');
+      setInterruptionNote('');
+    }
+  }, [isInterrupted]);
+
+  // Start or pause from the keyboard. A pomodoro started this way opens in the focus view.
+  const toggleFromShortcut = () => {
+    const isStarting = !isRunning && !isOvertime;
+    toggleTimer();
     
-    // Only change timer type if there's actually a change 
-    if (newType !== timerType) {
-      console.log(`Timer mode UI change detected: from ${timerType} to ${newType} (Manual: ${isManualChange})`);
-      
-      // Always call changeTimerType to keep UI and timer state in sync
-      changeTimerType(newType);
+    if (isStarting && timerType === 'pomodoro' && onOpenFocusView) {
+      onOpenFocusView();
     }
-  }, [timerMode, timerType, changeTimerType, isManualChange]);
+  };
   
-  // Toggle the timer
-  const toggleTimer = () => {
-    if (isRunning) {
-      pauseTimer();
+  // Whether we're asking what to do with the minutes of a pomodoro being reset
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const partialMinutes = Math.round(elapsed / 60);
+  const canLogPartial = timerType === 'pomodoro' && !!activeTaskName && partialMinutes > 0;
+
+  // Drop the question if the pomodoro ended some other way meanwhile
+  useEffect(() => {
+    if (status !== 'running' && status !== 'paused' && status !== 'overtime') {
+      setIsConfirmingReset(false);
+    }
+  }, [status]);
+
+  // Reset right away, or first ask whether to keep the minutes focused so far
+  const handleReset = () => {
+    if (canLogPartial) {
+      setIsConfirmingReset(true);
     } else {
-      startTimer();
+      resetTimer();
     }
   };
+
+  // Keyboard control of the timer, the task shortcuts live in TaskList
+  const canReset = isRunning || isOvertime || status === 'paused';
+  useKeyboardShortcuts(settings.keymap, {
+    toggleTimer: toggleFromShortcut,
+    resetTimer: canReset ? handleReset : undefined,
+    pomodoroMode: () => setTimerMode('pomodoro', true),
+    shortBreakMode: () => setTimerMode('shortBreak', true),
+    longBreakMode: () => setTimerMode('longBreak', true)
+  }, shortcutsEnabled);
+
+  // Answer the reset question
+  const confirmReset = (logPartial: boolean) => {
+    setIsConfirmingReset(false);
+    resetTimer(logPartial);
+  };
   
+  // Save the interruption draft for the current pause
+  const handleLogInterruption = (e: React.FormEvent) => {
+    e.preventDefault();
+    logInterruption(interruptionKind, interruptionNote);
+  };
+
+  // Time as shown on the timer
+  const displayTime = getDisplayTime(timer);
+
+  // Preset matching the current settings, if any
+  const activePreset = getActivePreset(settings);
+
+  // Progress towards today's goal
+  const showDailyGoal = settings.dailyGoal > 0 && completedToday !== undefined;
+  const dailyProgress = showDailyGoal ? Math.min(100, ((completedToday || 0) / settings.dailyGoal) * 100) : 0;
+
   // Button color styles based on timer mode
   const getButtonColor = (buttonMode: string) => {
     if (buttonMode === timerType) {
@@ -115,8 +179,38 @@ export const PomodoroTimer: React.FC<PomodoroTimerProps> = ({
   
   return (
     <div className="w-full bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6 shadow-lg mb-8">
+      {/* Focus view and preset selector */}
+      {(onOpenFocusView || onSelectPreset) && (
+        <div className="flex justify-between items-center mb-4">
+          {onOpenFocusView ? (
+            <button
+              className="bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-md text-sm transition-colors flex items-center"
+              onClick={onOpenFocusView}
+              title="Focus view"
+            >
+              <Maximize2Icon size={16} className="mr-1.5" /> Focus view
+            </button>
+          ) : <span />}
+          {onSelectPreset && (
+            <select
+              value={activePreset ? activePreset.id : ''}
+              onChange={(e) => e.target.value && onSelectPreset(e.target.value)}
+              className="bg-white/10 text-white text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-white/30"
+              aria-label="Timer preset"
+            >
+              {!activePreset && <option value="" className="text-gray-800">Custom</option>}
+              {getAllPresets(settings).map(preset => (
+                <option key={preset.id} value={preset.id} className="text-gray-800">
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      
       {/* Timer Mode Buttons */}
-      <div className="flex justify-center mb-8 gap-3 sm:gap-5">
+      <div className="flex flex-wrap justify-center mb-8 gap-3 sm:gap-5">
         <button 
           className={`px-5 py-3 sm:px-6 sm:py-3.5 rounded-lg text-sm sm:text-base transition-all duration-300 ease-in-out ${getButtonColor('pomodoro')}`} 
           onClick={() => setTimerMode('pomodoro', true)}
@@ -138,27 +232,236 @@ export const PomodoroTimer: React.FC<PomodoroTimerProps> = ({
         >
           Long Break
         </button>
+        <button 
+          className={`px-5 py-3 sm:px-6 sm:py-3.5 rounded-lg text-sm sm:text-base transition-all duration-300 ease-in-out ${getButtonColor('stopwatch')}`} 
+          onClick={() => setTimerMode('stopwatch', true)}
+          data-mode="stopwatch"
+        >
+          Stopwatch
+        </button>
       </div>
       
       {/* Timer Display */}
       <div className="text-center">
-        <div className="text-6xl sm:text-7xl font-bold text-white mb-4">
-          {formatTime(timeRemaining)}
+        <div className={`text-6xl sm:text-7xl font-bold mb-4 ${isOvertime ? 'text-amber-200' : 'text-white'}`}>
+          {displayTime}
         </div>
         
         {/* Current Mode Indicator */}
         <div className="mb-8 text-white/90 font-medium text-lg">
-          {timerType === 'pomodoro' ? 'Focus Time' : 
-           timerType === 'shortBreak' ? 'Short Break' : 'Long Break'}
+          {isOvertime ? 'Overtime - finish when you\'re ready' :
+           timerType === 'pomodoro' ? 'Focus Time' : 
+           timerType === 'shortBreak' ? 'Short Break' :
+           timerType === 'longBreak' ? 'Long Break' : 'Stopwatch'}
+          {timerType === 'pomodoro' && interruptionCount > 0 && (
+            <span className="ml-2 text-sm text-white/70">
+              ({interruptionCount} interruption{interruptionCount === 1 ? '' : 's'})
+            </span>
+          )}
         </div>
         
+        {/* Focus until planner */}
+        {canPlan && (
+          <form className="mb-6 flex flex-col items-center gap-2 text-white/90" onSubmit={handleStartFocusPlan}>
+            <div className="flex items-center gap-2">
+              <label htmlFor="focus-until" className="text-sm">Focus until</label>
+              <input
+                id="focus-until"
+                type="time"
+                value={focusUntil}
+                onChange={(e) => setFocusUntil(e.target.value)}
+                className="px-2 py-1 rounded-md text-sm bg-white/10 text-white focus:outline-none focus:ring-2 focus:ring-white/30"
+              />
+              <button 
+                type="submit"
+                disabled={plannedBlocks.length === 0}
+                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors disabled:opacity-50"
+              >
+                Start plan
+              </button>
+            </div>
+            {focusUntilAt !== null && plannedBlocks.length === 0 && (
+              <span className="text-xs text-white/70">Not enough time for a pomodoro before then</span>
+            )}
+            {plannedBlocks.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-1">
+                {plannedBlocks.map((block, index) => (
+                  <span key={index} className="px-2 py-0.5 rounded-full text-xs bg-white/10 text-white/80">
+                    {getBlockLabel(block)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </form>
+        )}
+        
+        {/* Running focus plan */}
+        {focusPlan && (
+          <div className="mb-6 flex flex-col items-center gap-2 text-white/90">
+            <div className="flex items-center gap-3 text-sm">
+              <span>Focusing until {formatClockTime(focusPlan.endsAt)}</span>
+              <button 
+                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+                onClick={cancelFocusPlan}
+              >
+                Cancel plan
+              </button>
+            </div>
+            <div className="flex flex-wrap justify-center gap-1">
+              {focusPlan.blocks.map((block, index) => (
+                <span 
+                  key={index} 
+                  className={`px-2 py-0.5 rounded-full text-xs ${
+                    index === focusPlan.index ? 'bg-white/40 text-white font-medium' :
+                    index < focusPlan.index ? 'bg-white/5 text-white/40 line-through' : 'bg-white/10 text-white/80'
+                  }`}
+                >
+                  {getBlockLabel(block)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Auto-start grace countdown */}
+        {pendingAutoStartType && autoStartCountdown !== null && (
+          <div className="mb-6 flex justify-center items-center gap-3 text-white/90">
+            <span>
+              {pendingAutoStartType === 'pomodoro' ? 'Pomodoro' : 'Break'} starts in {autoStartCountdown >= 60 ? formatTime(autoStartCountdown) : `${autoStartCountdown}s`}
+            </span>
+            <button 
+              className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+              onClick={cancelAutoStart}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        
+        {/* Completion banner when desktop notifications aren't allowed */}
+        {completionNotice && onNotificationAction && (
+          <div className="mb-6 flex flex-col sm:flex-row justify-center items-center gap-3 text-white/90">
+            <span>
+              <span className="font-medium">{completionNotice.title}.</span> {completionNotice.body}
+            </span>
+            <div className="flex gap-2">
+              {completionNotice.actions.map(({ action, title }) => (
+                <button 
+                  key={action}
+                  className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+                  onClick={() => onNotificationAction(action)}
+                >
+                  {title}
+                </button>
+              ))}
+              <button 
+                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+                onClick={onDismissCompletionNotice}
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+        
+        {/* Reset question for a pomodoro with minutes worth keeping */}
+        {isConfirmingReset && (
+          <div className="mb-6 flex flex-col sm:flex-row justify-center items-center gap-3 text-white/90">
+            <span>
+              Log the {partialMinutes} minute{partialMinutes === 1 ? '' : 's'} so far to the active task?
+            </span>
+            <div className="flex gap-2">
+              <button 
+                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+                onClick={() => confirmReset(true)}
+              >
+                Log and reset
+              </button>
+              <button 
+                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+                onClick={() => confirmReset(false)}
+              >
+                Discard
+              </button>
+              <button 
+                className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors" 
+                onClick={() => setIsConfirmingReset(false)}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        
+        {/* Daily goal progress */}
+        {showDailyGoal && (
+          <div className="mb-6 mx-auto max-w-xs">
+            <div className="flex justify-between text-sm text-white/80 mb-1">
+              <span>Today</span>
+              <span>
+                {completedToday} / {settings.dailyGoal} pomodoros
+                {(completedToday || 0) >= settings.dailyGoal && ' - goal met!'}
+              </span>
+            </div>
+            <div className="w-full bg-white/10 rounded-full h-2">
+              <div 
+                className="bg-white/80 h-2 rounded-full transition-all duration-500" 
+                style={{ width: `${dailyProgress}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+        
+        {/* Interruption capture while a pomodoro is paused */}
+        {isInterrupted && (
+          <form className="mb-6 flex flex-col sm:flex-row justify-center items-center gap-2 text-white/90" onSubmit={handleLogInterruption}>
+            <span className="text-sm">What interrupted you?</span>
+            <div className="flex gap-2">
+              {(['internal', 'external'] as InterruptionKind[]).map(kind => (
+                <button
+                  key={kind}
+                  type="button"
+                  className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                    interruptionKind === kind ? 'bg-white/40 text-white font-medium' : 'bg-white/10 hover:bg-white/20 text-white/80'
+                  }`}
+                  onClick={() => setInterruptionKind(kind)}
+                >
+                  {kind === 'internal' ? 'Internal' : 'External'}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={interruptionNote}
+              onChange={(e) => setInterruptionNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="px-3 py-1 rounded-md text-sm bg-white/10 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/30"
+            />
+            <button 
+              type="submit"
+              className="bg-white/10 hover:bg-white/20 text-white px-3 py-1 rounded-md text-sm transition-colors"
+            >
+              {currentInterruption ? 'Update' : 'Log'}
+            </button>
+          </form>
+        )}
+        {isInterrupted && settings.pauseTimeoutMinutes > 0 && (
+          <p className="-mt-4 mb-6 text-center text-xs text-white/60">
+            Abandoned if still paused after {settings.pauseTimeoutMinutes} min
+          </p>
+        )}
+        
         {/* Timer Controls */}
         <div className="flex justify-center space-x-4">
           <button 
             className="bg-white/90 hover:bg-white text-gray-800 px-8 sm:px-10 py-3 rounded-md font-bold text-lg sm:text-xl transition-colors flex items-center" 
             onClick={toggleTimer}
           >
-            {isRunning ? (
+            {isOvertime ? (
+              <>
+                <CheckIcon className="mr-2" size={24} /> FINISH
+              </>
+            ) : isRunning ? (
               <>
                 <PauseIcon className="mr-2" size={24} /> PAUSE
               </>
@@ -169,14 +472,45 @@ export const PomodoroTimer: React.FC<PomodoroTimerProps> = ({
             )}
           </button>
           
-          {isRunning && (
+          {canReset && (
             <button 
               className="bg-white/10 text-white p-3 rounded-md hover:bg-white/20 transition-colors" 
-              onClick={resetTimer}
+              onClick={handleReset}
+              title="Reset"
             >
               <RotateCcwIcon size={24} />
             </button>
           )}
+          
+          {timerType === 'stopwatch' && (status === 'running' || status === 'paused') && (
+            <button 
+              className="bg-white/10 text-white p-3 rounded-md hover:bg-white/20 transition-colors" 
+              onClick={finishTimer}
+              title="Stop and log time"
+            >
+              <SquareIcon size={24} />
+            </button>
+          )}
+          
+          {timerType !== 'stopwatch' && (status === 'running' || status === 'paused') && (
+            <button 
+              className="bg-white/10 text-white px-3 rounded-md hover:bg-white/20 transition-colors flex items-center" 
+              onClick={() => extendPhase(EXTEND_MINUTES)}
+              title={`Add ${EXTEND_MINUTES} minutes`}
+            >
+              <PlusIcon size={20} className="mr-1" /> {EXTEND_MINUTES} min
+            </button>
+          )}
+          
+          {timerType !== 'stopwatch' && (
+            <button 
+              className="bg-white/10 text-white p-3 rounded-md hover:bg-white/20 transition-colors" 
+              onClick={skipPhase}
+              title={timerType === 'pomodoro' ? 'Skip to break' : 'End break'}
+            >
+              <SkipForwardIcon size={24} />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AlertTriangleIcon, DownloadIcon } from 'lucide-react';
+import {
+  QuarantinedValue,
+  clearQuarantine,
+  discardQuarantined,
+  downloadQuarantine,
+  getSalvageable,
+  getStorageLabel,
+  restoreQuarantined
+} from '../utils/storageRecovery';
+
+interface RecoveryScreenProps {
+  quarantine: QuarantinedValue[];
+  onDone: () => void;
+}
+
+// Shown at boot instead of the app when stored data couldn't be read.
+// Each set-aside value can be partly restored or dropped, or all of it exported.
+export const RecoveryScreen: React.FC<RecoveryScreenProps> = ({
+  quarantine: initialQuarantine,
+  onDone
+}) => {
+  const [quarantine, setQuarantine] = useState(initialQuarantine);
+
+  // Helper function to carry on once nothing is left to decide
+  const update = (remaining: QuarantinedValue[]) => {
+    setQuarantine(remaining);
+    if (remaining.length === 0) {
+      onDone();
+    }
+  };
+
+  const resetAll = () => {
+    clearQuarantine();
+    onDone();
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen w-full items-center justify-center bg-indigo-900 p-4">
+      <div className="bg-gray-800 text-white rounded-lg w-full max-w-lg shadow-lg">
+        <div className="p-4 border-b border-gray-700 flex items-center gap-3">
+          <AlertTriangleIcon className="text-amber-300 flex-shrink-0" size={24} />
+          <h1 className="text-xl font-semibold">Some saved data couldn't be read</h1>
+        </div>
+        <p className="p-4 text-gray-300 text-sm">
+          PomoSpace has set it aside rather than deleting it, so nothing is lost yet.
+          Restore what can still be read, export it to keep a copy, or reset to start that part fresh.
+        </p>
+        <ul className="px-4 space-y-3">
+          {quarantine.map(item => {
+            const canRestore = getSalvageable(item) !== undefined;
+            return (
+              <li key={`${item.key}-${item.quarantinedAt}`} className="p-3 rounded bg-gray-700/50 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{getStorageLabel(item.key)}</div>
+                  <div className="text-xs text-gray-400">
+                    {item.reason}, set aside {new Date(item.quarantinedAt).toLocaleString()}
+                  </div>
+                </div>
+                {canRestore && (
+                  <button
+                    className="px-3 py-1 rounded text-sm bg-blue-600 hover:bg-blue-700 transition-colors"
+                    onClick={() => update(restoreQuarantined(item))}
+                  >
+                    Restore
+                  </button>
+                )}
+                <button
+                  className="px-3 py-1 rounded text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+                  onClick={() => update(discardQuarantined(item))}
+                >
+                  Reset
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="p-4 flex flex-col sm:flex-row gap-2 sm:justify-end">
+          <button
+            className="px-3 py-2 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors flex items-center justify-center"
+            onClick={downloadQuarantine}
+          >
+            <DownloadIcon size={16} className="mr-2" />
+            Export
+          </button>
+          <button
+            className="px-3 py-2 rounded text-sm bg-gray-700 hover:bg-gray-600 transition-colors"
+            onClick={resetAll}
+          >
+            Reset all and continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { CalendarIcon, ClockIcon, FlameIcon, ChevronRightIcon, BarChart4Icon, LineChartIcon, PieChartIcon, ListIcon } from 'lucide-react';
+import { CalendarIcon, ClockIcon, FlameIcon, ChevronRightIcon, BarChart4Icon, LineChartIcon, PieChartIcon, ListIcon, ZapOffIcon, TargetIcon } from 'lucide-react';
 import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, BarElement, ArcElement, Title, Tooltip, Legend } from 'chart.js';
 import { Bar, Line, Pie } from 'react-chartjs-2';
+import { getDayKey, getPreviousDayKey, getGoalStreak, isGoalMet, loadDailyLog, parseDayKey } from '../utils/dailyGoal';
+import { REPORT_RANGES, ReportsRange, ReportsTab } from '../utils/routes';
+import type { Interruption } from '../hooks/useTimer';
 
 // Register ChartJS components
 ChartJS.register(
@@ -18,6 +21,11 @@ ChartJS.register(
 
 interface ReportsPageProps {
   darkMode: boolean;
+  dayStartHour: number;
+  activeTab: ReportsTab;
+  onTabChange: (tab: ReportsTab) => void;
+  timeRange: ReportsRange;
+  onTimeRangeChange: (range: ReportsRange) => void;
 }
 
 type TaskHistoryItem = {
@@ -26,6 +34,13 @@ type TaskHistoryItem = {
   taskName: string;
   minutes: number;
   category?: string;
+  outcome?: 'completed' | 'skipped' | 'abandoned' | 'reset';
+  partial?: boolean;
+  timerType?: 'pomodoro' | 'stopwatch';
+  extendedMinutes?: number;
+  interruptions?: Interruption[];
+  awayMinutes?: number;
+  awayAsBreak?: boolean;
 };
 
 interface DailyStats {
@@ -40,12 +55,23 @@ interface CategoryStats {
   percentage: number;
 }
 
+interface InterruptionStats {
+  label: string;             // Date or task name
+  internal: number;
+  external: number;
+  sessions: number;          // Pomodoros logged for this day or task
+}
+
 export const ReportsPage: React.FC<ReportsPageProps> = ({
-  darkMode
+  darkMode,
+  dayStartHour,
+  activeTab,
+  onTabChange,
+  timeRange,
+  onTimeRangeChange
 }) => {
-  const [activeTab, setActiveTab] = useState('overview');
-  const [timeRange, setTimeRange] = useState('week');
   const [isLoading, setIsLoading] = useState(false);
+  const [includePartial, setIncludePartial] = useState(true);
   
   // In a real app, this would load from API or localStorage
   const loadTaskHistory = (): TaskHistoryItem[] => {
@@ -73,7 +99,13 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     ];
   };
   
-  const taskHistory = loadTaskHistory();
+  const fullTaskHistory = loadTaskHistory();
+  const partialMinutes = fullTaskHistory.reduce((total, task) => total + (task.partial ? task.minutes : 0), 0);
+  
+  // Everything below works on this, so partial pomodoros drop out of every total when excluded
+  const taskHistory = includePartial ? fullTaskHistory : fullTaskHistory.filter(task => !task.partial);
+  const dailyLog = loadDailyLog();
+  const todayKey = getDayKey(Date.now(), dayStartHour);
   
   // Compute daily statistics
   const getDailyStats = (): DailyStats[] => {
@@ -93,7 +125,7 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     });
     
     return Object.values(stats).sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
+      parseDayKey(b.date).getTime() - parseDayKey(a.date).getTime()
     );
   };
   
@@ -115,6 +147,36 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     })).sort((a, b) => b.totalMinutes - a.totalMinutes);
   };
   
+  // Compute interruption counts grouped by day or by task
+  const getInterruptionStats = (groupBy: 'date' | 'taskName'): InterruptionStats[] => {
+    const stats: Record<string, InterruptionStats> = {};
+    
+    taskHistory.forEach(task => {
+      const label = task[groupBy];
+      if (!stats[label]) {
+        stats[label] = { label, internal: 0, external: 0, sessions: 0 };
+      }
+      
+      stats[label].sessions++;
+      (task.interruptions || []).forEach(interruption => {
+        stats[label][interruption.kind]++;
+      });
+    });
+    
+    return Object.values(stats);
+  };
+  
+  // Total interruptions of each kind
+  const getInterruptionTotals = () => {
+    return getInterruptionStats('date').reduce(
+      (totals, stat) => ({
+        internal: totals.internal + stat.internal,
+        external: totals.external + stat.external
+      }),
+      { internal: 0, external: 0 }
+    );
+  };
+  
   // Compute focus streak (consecutive days with activity)
   const calculateFocusStreak = (): number => {
     const dailyStats = getDailyStats();
@@ -125,17 +187,15 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     
     // Check how many consecutive days from today
     let streak = 0;
-    const today = new Date().toISOString().split('T')[0];
-    let currentDate = new Date(today);
+    let dateToCheck = todayKey;
     
     for (let i = 0; i < dates.length; i++) {
-      const dateToCheck = currentDate.toISOString().split('T')[0];
       const found = dates.includes(dateToCheck);
       
       if (found) {
         streak++;
         // Move to previous day
-        currentDate.setDate(currentDate.getDate() - 1);
+        dateToCheck = getPreviousDayKey(dateToCheck);
       } else {
         break;
       }
@@ -149,6 +209,9 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     return taskHistory.reduce((total, task) => total + task.minutes, 0) / 60;
   };
   
+  // Pomodoros left paused until they timed out
+  const abandonedSessions = taskHistory.filter(task => task.outcome === 'abandoned');
+  
   // Get unique active days
   const getActiveDays = (): number => {
     return new Set(taskHistory.map(task => task.date)).size;
@@ -157,8 +220,9 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
   // Prepare data for daily chart
   const getDailyChartData = () => {
     const dailyStats = getDailyStats();
-    const dates = dailyStats.map(stat => new Date(stat.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }));
+    const dates = dailyStats.map(stat => parseDayKey(stat.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }));
     const minutes = dailyStats.map(stat => stat.totalMinutes);
+    const goalMet = dailyStats.map(stat => isGoalMet(dailyLog[stat.date]));
     
     return {
       labels: dates.reverse(),
@@ -166,7 +230,10 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
         {
           label: 'Focus Minutes',
           data: minutes.reverse(),
-          backgroundColor: darkMode ? 'rgba(124, 58, 237, 0.7)' : 'rgba(99, 102, 241, 0.7)',
+          // Days that met the daily goal stand out in green
+          backgroundColor: goalMet.reverse().map(met => met
+            ? 'rgba(16, 185, 129, 0.7)'
+            : darkMode ? 'rgba(124, 58, 237, 0.7)' : 'rgba(99, 102, 241, 0.7)'),
           borderColor: darkMode ? 'rgba(124, 58, 237, 1)' : 'rgba(99, 102, 241, 1)',
           borderWidth: 1
         }
@@ -199,6 +266,29 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     };
   };
   
+  // Prepare data for the interruptions per day chart
+  const getInterruptionChartData = () => {
+    const dailyStats = getInterruptionStats('date').sort((a, b) => 
+      parseDayKey(a.label).getTime() - parseDayKey(b.label).getTime()
+    );
+    
+    return {
+      labels: dailyStats.map(stat => parseDayKey(stat.label).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })),
+      datasets: [
+        {
+          label: 'Internal',
+          data: dailyStats.map(stat => stat.internal),
+          backgroundColor: 'rgba(255, 159, 64, 0.8)'
+        },
+        {
+          label: 'External',
+          data: dailyStats.map(stat => stat.external),
+          backgroundColor: 'rgba(54, 162, 235, 0.8)'
+        }
+      ]
+    };
+  };
+  
   // Style variables
   const bgColor = darkMode ? 'bg-gray-800' : 'bg-white/95';
   const cardBgColor = darkMode ? 'bg-gray-700' : 'bg-white';
@@ -247,6 +337,14 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
     }
   };
   
+  const stackedBarOptions = {
+    ...barOptions,
+    scales: {
+      x: { ...barOptions.scales.x, stacked: true },
+      y: { ...barOptions.scales.y, stacked: true, ticks: { ...barOptions.scales.y.ticks, precision: 0 } }
+    }
+  };
+  
   const pieOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -266,35 +364,53 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
       <div className={`flex flex-wrap sm:flex-nowrap border-b ${borderColor}`}>
         <button 
           className={`${getTabStyle('overview')} min-w-[50%] sm:min-w-0 sm:flex-1 flex items-center justify-start sm:justify-center`} 
-          onClick={() => setActiveTab('overview')}
+          onClick={() => onTabChange('overview')}
         >
           <BarChart4Icon className="w-4 h-4 mr-2" />
           <span>Overview</span>
         </button>
         <button 
           className={`${getTabStyle('daily')} min-w-[50%] sm:min-w-0 sm:flex-1 flex items-center justify-start sm:justify-center`} 
-          onClick={() => setActiveTab('daily')}
+          onClick={() => onTabChange('daily')}
         >
           <LineChartIcon className="w-4 h-4 mr-2" />
           <span>Daily</span>
         </button>
         <button 
           className={`${getTabStyle('categories')} min-w-[50%] sm:min-w-0 sm:flex-1 flex items-center justify-start sm:justify-center`} 
-          onClick={() => setActiveTab('categories')}
+          onClick={() => onTabChange('categories')}
         >
           <PieChartIcon className="w-4 h-4 mr-2" />
           <span>Categories</span>
         </button>
         <button 
           className={`${getTabStyle('history')} min-w-[50%] sm:min-w-0 sm:flex-1 flex items-center justify-start sm:justify-center`} 
-          onClick={() => setActiveTab('history')}
+          onClick={() => onTabChange('history')}
         >
           <ListIcon className="w-4 h-4 mr-2" />
           <span>History</span>
         </button>
+        <button 
+          className={`${getTabStyle('interruptions')} min-w-[50%] sm:min-w-0 sm:flex-1 flex items-center justify-start sm:justify-center`} 
+          onClick={() => onTabChange('interruptions')}
+        >
+          <ZapOffIcon className="w-4 h-4 mr-2" />
+          <span>Interruptions</span>
+        </button>
       </div>
       
       <div className="p-6">
+        {partialMinutes > 0 && (
+          <label className={`mb-4 flex items-center justify-end gap-2 text-sm ${subTextColor} cursor-pointer`}>
+            <input 
+              type="checkbox" 
+              checked={includePartial} 
+              onChange={e => setIncludePartial(e.target.checked)} 
+            />
+            Include partial pomodoros ({partialMinutes} min)
+          </label>
+        )}
+        
         {/* Overview Tab */}
         {activeTab === 'overview' && (
           <>
@@ -304,7 +420,7 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
                 Your Productivity Overview
               </h2>
               
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                 <div className={`${cardBgColor} p-4 rounded-lg shadow-sm`}>
                   <div className="flex items-center mb-2">
                     <ClockIcon className={`mr-2 ${subTextColor}`} size={20} />
@@ -328,7 +444,22 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
                   </div>
                   <p className={`text-2xl font-bold ${textColor} text-left`}>{calculateFocusStreak()}</p>
                 </div>
+                
+                <div className={`${cardBgColor} p-4 rounded-lg shadow-sm`}>
+                  <div className="flex items-center mb-2">
+                    <TargetIcon className={`mr-2 ${subTextColor}`} size={20} />
+                    <span className={`${subTextColor} text-left`}>Goal Streak</span>
+                  </div>
+                  <p className={`text-2xl font-bold ${textColor} text-left`}>{getGoalStreak(dailyLog, todayKey)}</p>
+                </div>
               </div>
+              
+              {abandonedSessions.length > 0 && (
+                <p className={`mt-3 text-sm ${subTextColor} text-left`}>
+                  {abandonedSessions.length} abandoned pomodoro{abandonedSessions.length === 1 ? '' : 's'}
+                  {' '}({abandonedSessions.reduce((total, task) => total + task.minutes, 0)} minutes logged before they timed out)
+                </p>
+              )}
             </div>
             
             {/* Combined Charts Section */}
@@ -372,10 +503,10 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
                 Daily Focus Time
               </h2>
               <div className="flex space-x-2 w-full sm:w-auto">
-                {['week', 'month', 'year'].map(range => (
+                {REPORT_RANGES.map(range => (
                   <button 
                     key={range} 
-                    onClick={() => setTimeRange(range)} 
+                    onClick={() => onTimeRangeChange(range)} 
                     className={`flex-1 sm:flex-none text-center px-3 py-1 rounded-md ${
                       timeRange === range 
                       ? 'bg-indigo-600 text-white' 
@@ -388,6 +519,10 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
               </div>
             </div>
             
+            <p className={`text-sm ${subTextColor} mb-3 text-left`}>
+              Days where you met your daily pomodoro goal are shown in green.
+            </p>
+            
             <div className={`${cardBgColor} rounded-lg p-4 shadow-sm`} style={{ height: '400px' }}>
               {taskHistory.length > 0 ? (
                 <Bar data={getDailyChartData()} options={barOptions} />
@@ -458,7 +593,7 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
                       <div className="flex items-center text-left">
                         <CalendarIcon className={`mr-2 ${subTextColor} flex-shrink-0`} size={16} />
                         <span className={`font-medium ${textColor} truncate`}>
-                          {new Date(dayStat.date).toLocaleDateString(undefined, { 
+                          {parseDayKey(dayStat.date).toLocaleDateString(undefined, { 
                             weekday: 'long', 
                             year: 'numeric', 
                             month: 'long', 
@@ -467,6 +602,9 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
                         </span>
                       </div>
                       <span className={`${textColor} font-medium mt-1 sm:mt-0 text-left sm:text-right`}>
+                        {isGoalMet(dailyLog[dayStat.date]) && (
+                          <span className="mr-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Goal met</span>
+                        )}
                         {(dayStat.totalMinutes / 60).toFixed(1)} hours
                       </span>
                     </div>
@@ -480,6 +618,26 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
                           </div>
                           <div className={`${subTextColor} mt-1 sm:mt-0 text-left sm:text-right`}>
                             {task.minutes} minutes
+                            {task.timerType === 'stopwatch' && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-slate-100 text-slate-800">Stopwatch</span>
+                            )}
+                            {task.outcome === 'skipped' && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">Skipped</span>
+                            )}
+                            {task.partial && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">Partial</span>
+                            )}
+                            {task.outcome === 'abandoned' && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Abandoned</span>
+                            )}
+                            {!!task.extendedMinutes && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-indigo-100 text-indigo-800">+{task.extendedMinutes} min</span>
+                            )}
+                            {!!task.awayMinutes && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-teal-100 text-teal-800">
+                                {task.awayAsBreak ? `${task.awayMinutes} min break` : `-${task.awayMinutes} min away`}
+                              </span>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -496,6 +654,56 @@ export const ReportsPage: React.FC<ReportsPageProps> = ({
             )}
           </div>
         )}
+        
+        {/* Interruptions Tab */}
+        {activeTab === 'interruptions' && (
+          <div>
+            <h2 className={`text-xl font-bold ${textColor} mb-4 text-left`}>
+              Interruptions
+            </h2>
+            
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              <div className={`${cardBgColor} p-4 rounded-lg shadow-sm`}>
+                <span className={`${subTextColor} text-left block mb-2`}>Internal</span>
+                <p className={`text-2xl font-bold ${textColor} text-left`}>{getInterruptionTotals().internal}</p>
+              </div>
+              <div className={`${cardBgColor} p-4 rounded-lg shadow-sm`}>
+                <span className={`${subTextColor} text-left block mb-2`}>External</span>
+                <p className={`text-2xl font-bold ${textColor} text-left`}>{getInterruptionTotals().external}</p>
+              </div>
+            </div>
+            
+            <h3 className={`text-lg font-semibold ${textColor} mb-3 text-left`}>Per Day</h3>
+            <div className={`${cardBgColor} rounded-lg p-4 shadow-sm mb-6`} style={{ height: '300px' }}>
+              {taskHistory.length > 0 ? (
+                <Bar data={getInterruptionChartData()} options={stackedBarOptions} />
+              ) : (
+                <div className="h-full flex items-center justify-center">
+                  <p className={subTextColor}>No interruption data available</p>
+                </div>
+              )}
+            </div>
+            
+            <h3 className={`text-lg font-semibold ${textColor} mb-3 text-left`}>Per Task</h3>
+            <div className={`${cardBgColor} rounded-lg shadow-sm divide-y divide-gray-200 dark:divide-gray-700`}>
+              {getInterruptionStats('taskName')
+                .sort((a, b) => (b.internal + b.external) - (a.internal + a.external))
+                .map((stat, index) => (
+                  <div key={index} className="p-3 flex flex-col sm:flex-row justify-between sm:items-center">
+                    <div className={`${textColor} text-left`}>
+                      <div className="font-medium">{stat.label}</div>
+                      <div className={`text-xs ${subTextColor}`}>
+                        {stat.internal} internal, {stat.external} external
+                      </div>
+                    </div>
+                    <div className={`${subTextColor} mt-1 sm:mt-0 text-left sm:text-right`}>
+                      {((stat.internal + stat.external) / stat.sessions).toFixed(1)} per pomodoro
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,99 +1,166 @@
-import React, { useRef, useState } from 'react';
-import { XIcon, MoonIcon, UploadIcon, FileTextIcon } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { XIcon, MoonIcon, UploadIcon, FileTextIcon, TrashIcon, PlusIcon } from 'lucide-react';
 import { downloadTaskHistoryCSV, handleFileUpload } from '../utils/dataUtils';
+import {
+  getAllPresets,
+  getActivePreset,
+  isBuiltInPreset,
+  applyPreset,
+  savePresetFromSettings,
+  deletePreset
+} from '../utils/timerPresets';
+import {
+  NotificationPermissionState,
+  getNotificationPermission,
+  requestNotificationPermission
+} from '../utils/notifications';
+import { IdlePermissionState, getIdlePermission, requestIdlePermission } from '../utils/idleDetection';
+import { DAY_LABELS, ScheduledBlock, createScheduledBlock } from '../utils/focusSchedule';
+import { NumberSetting, SETTINGS_RANGES, Settings, isInRange } from '../utils/settingsSchema';
+import {
+  DEFAULT_KEYMAP,
+  ShortcutAction,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  bindShortcut,
+  formatKey,
+  isBindableKey
+} from '../utils/keymap';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  settings: {
-    timerDurations: {
-      pomodoro: number;
-      shortBreak: number;
-      longBreak: number;
-    };
-    longBreakInterval: number;
-    autoStartBreaks: boolean;
-    autoStartPomodoros: boolean;
-    darkMode: boolean;
-    sound: {
-      alarmSound: string;
-      alarmVolume: number;
-      tickingSound: string;
-      tickingVolume: number;
-      alarmRepeat: number;
-    };
-  };
-  onSettingsChange: (settings: any) => void;
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  tasks?: { id: string; text: string; completed: boolean }[]; // For picking a focus block's task
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   settings,
-  onSettingsChange
+  onSettingsChange,
+  tasks = []
 }) => {
   const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [capturingAction, setCapturingAction] = useState<ShortcutAction | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermissionState>(getNotificationPermission);
+  const [idlePermission, setIdlePermission] = useState<IdlePermissionState>('unsupported');
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Update timer durations
-  const updateTimerDuration = (timerType: string, value: string) => {
+  const updateTimerDuration = (timerType: 'pomodoro' | 'shortBreak' | 'longBreak', value: string) => {
     const numValue = parseInt(value);
     // Validate the input
-    if (isNaN(numValue) || numValue < 1) return;
-    
-    const maxValues = {
-      pomodoro: 60,
-      shortBreak: 30,
-      longBreak: 60
-    };
-    
-    const timerKey = timerType as keyof typeof maxValues;
+    if (isNaN(numValue) || numValue < SETTINGS_RANGES[timerType].min) return;
     
     // Apply a maximum value
-    const validValue = Math.min(numValue, maxValues[timerKey]);
+    const validValue = Math.min(numValue, SETTINGS_RANGES[timerType].max);
     
-    // Force an immediate update by adding a timestamp
-    const updatedSettings = {
+    onSettingsChange({
       ...settings,
       timerDurations: {
         ...settings.timerDurations,
         [timerType]: validValue
-      },
-      lastUpdated: Date.now() // Add a timestamp to force re-renders
-    };
+      }
+    });
+  };
+  
+  // Save the current timer setup as a named preset
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
     
-    // Apply the settings update
-    onSettingsChange(updatedSettings);
+    onSettingsChange(savePresetFromSettings(settings, presetName));
+    setPresetName('');
+  };
+  
+  // Preset matching the current values, highlighted in the list
+  const activePreset = getActivePreset(settings);
+  
+  // Toggle boolean settings
+  const toggleSetting = (settingName: 'autoStartBreaks' | 'autoStartPomodoros' | 'flowMode' | 'logAbandonedMinutes' | 'darkMode') => {
+    onSettingsChange({
+      ...settings,
+      [settingName]: !settings[settingName]
+    });
+  };
+  
+  // Turn notifications on, asking the browser first. They stay on when the
+  // browser says no, the timer then shows completions in the page instead.
+  const toggleNotifications = async () => {
+    if (settings.notifications) {
+      onSettingsChange({ ...settings, notifications: false });
+      return;
+    }
     
-    // Special treatment when changing pomodoro duration - add a flag to signal this
-    if (timerType === 'pomodoro') {
-      // Clear localStorage timer state to force a reset the next time the page loads
-      try {
-        const timerState = localStorage.getItem('pomoSpaceTimerState');
-        if (timerState) {
-          const parsedState = JSON.parse(timerState);
-          if (parsedState && parsedState.timerStates && parsedState.timerStates.pomodoro) {
-            // Signal that there was a settings change
-            parsedState.timerStates.pomodoro.settingsChanged = true;
-            localStorage.setItem('pomoSpaceTimerState', JSON.stringify(parsedState));
-          }
-        }
-      } catch (e) {
-        console.error('Error updating timer state:', e);
-      }
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    onSettingsChange({ ...settings, notifications: true });
+  };
+  
+  // Effect to check whether system idle detection is allowed, it can only be asked asynchronously
+  useEffect(() => {
+    if (isOpen) {
+      getIdlePermission().then(setIdlePermission);
     }
+  }, [isOpen]);
+  
+  // Ask to see idleness across the whole system, not just on this page
+  const allowIdleDetection = async () => {
+    setIdlePermission(await requestIdlePermission());
   };
   
-  // Toggle boolean settings
-  const toggleSetting = (settingName: string) => {
+  // Change one block of the focus schedule
+  const updateScheduledBlock = (blockId: string, changes: Partial<ScheduledBlock>) => {
     onSettingsChange({
       ...settings,
-      [settingName]: !settings[settingName as keyof typeof settings]
+      focusSchedule: settings.focusSchedule.map(block => block.id === blockId ? { ...block, ...changes } : block)
     });
   };
   
+  // Turn a day on or off for a focus block
+  const toggleScheduledBlockDay = (block: ScheduledBlock, day: number) => {
+    const days = block.days.includes(day)
+      ? block.days.filter(d => d !== day)
+      : [...block.days, day].sort((a, b) => a - b);
+    updateScheduledBlock(block.id, { days });
+  };
+  
+  // Take the next key pressed as the new binding for the action being edited
+  const handleShortcutKeyDown = (e: React.KeyboardEvent) => {
+    if (!capturingAction) return;
+    
+    // Keep the key away from the page's own shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+    
+    if (e.key === 'Escape') {
+      setCapturingAction(null);
+      return;
+    }
+    if (!isBindableKey(e.key)) return;
+    
+    onSettingsChange({ ...settings, keymap: bindShortcut(settings.keymap, capturingAction, e.key) });
+    setCapturingAction(null);
+  };
+  
+  // Update a number setting, ignoring values outside its range
+  const updateNumberSetting = (
+    setting: 'longBreakInterval' | 'dailyGoal' | 'pauseTimeoutMinutes' | 'awayThresholdMinutes',
+    value: string
+  ) => {
+    const numValue = parseInt(value);
+    if (isInRange(setting, numValue)) {
+      onSettingsChange({ ...settings, [setting]: numValue });
+    }
+  };
+  
   // Update sound settings
-  const updateSoundSetting = (setting: string, value: string | number) => {
+  const updateSoundSetting = (setting: keyof Settings['sound'], value: string | number) => {
+    if (setting in SETTINGS_RANGES && !isInRange(setting as NumberSetting, value)) return;
+    
     onSettingsChange({
       ...settings,
       sound: {
@@ -149,6 +216,53 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               TIMER
             </h3>
             <div className="space-y-4">
+              <div>
+                <label className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} block mb-2`}>
+                  Presets
+                </label>
+                <div className="space-y-2">
+                  {getAllPresets(settings).map(preset => (
+                    <div key={preset.id} className="flex items-center gap-2">
+                      <button 
+                        onClick={() => onSettingsChange(applyPreset(settings, preset.id))} 
+                        className={`flex-1 text-left px-3 py-2 rounded text-sm ${
+                          activePreset && activePreset.id === preset.id
+                            ? 'bg-blue-600 text-white'
+                            : settings.darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {preset.name}
+                      </button>
+                      {!isBuiltInPreset(preset.id) && (
+                        <button 
+                          onClick={() => onSettingsChange(deletePreset(settings, preset.id))} 
+                          className={settings.darkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}
+                          aria-label={`Delete preset ${preset.name}`}
+                        >
+                          <TrashIcon size={16} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <form className="flex gap-2 mt-2" onSubmit={handleSavePreset}>
+                  <input 
+                    type="text" 
+                    value={presetName} 
+                    onChange={e => setPresetName(e.target.value)} 
+                    placeholder="Save current timer as..." 
+                    className={`flex-1 p-2 rounded text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
+                  />
+                  <button 
+                    type="submit" 
+                    disabled={!presetName.trim()} 
+                    className="px-3 py-2 rounded text-sm bg-blue-600 text-white disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </form>
+              </div>
+              
               <div>
                 <label className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} block mb-2`}>
                   Time (minutes)
@@ -158,19 +272,19 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                     <label className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'} block mb-1`}>
                       Pomodoro
                     </label>
-                    <input type="number" value={settings.timerDurations.pomodoro} onChange={e => updateTimerDuration('pomodoro', e.target.value)} className={`w-full p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
+                    <input type="number" min={SETTINGS_RANGES.pomodoro.min} max={SETTINGS_RANGES.pomodoro.max} value={settings.timerDurations.pomodoro} onChange={e => updateTimerDuration('pomodoro', e.target.value)} className={`w-full p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
                   </div>
                   <div>
                     <label className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'} block mb-1`}>
                       Short Break
                     </label>
-                    <input type="number" value={settings.timerDurations.shortBreak} onChange={e => updateTimerDuration('shortBreak', e.target.value)} className={`w-full p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
+                    <input type="number" min={SETTINGS_RANGES.shortBreak.min} max={SETTINGS_RANGES.shortBreak.max} value={settings.timerDurations.shortBreak} onChange={e => updateTimerDuration('shortBreak', e.target.value)} className={`w-full p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
                   </div>
                   <div>
                     <label className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'} block mb-1`}>
                       Long Break
                     </label>
-                    <input type="number" value={settings.timerDurations.longBreak} onChange={e => updateTimerDuration('longBreak', e.target.value)} className={`w-full p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
+                    <input type="number" min={SETTINGS_RANGES.longBreak.min} max={SETTINGS_RANGES.longBreak.max} value={settings.timerDurations.longBreak} onChange={e => updateTimerDuration('longBreak', e.target.value)} className={`w-full p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
                   </div>
                 </div>
               </div>
@@ -182,18 +296,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 <div className="flex items-center">
                   <input 
                     type="number" 
-                    min="1" 
-                    max="10" 
+                    min={SETTINGS_RANGES.longBreakInterval.min} 
+                    max={SETTINGS_RANGES.longBreakInterval.max} 
                     value={settings.longBreakInterval} 
-                    onChange={e => {
-                      const value = parseInt(e.target.value);
-                      if (!isNaN(value) && value >= 1 && value <= 10) {
-                        onSettingsChange({
-                          ...settings,
-                          longBreakInterval: value
-                        });
-                      }
-                    }} 
+                    onChange={e => updateNumberSetting('longBreakInterval', e.target.value)} 
                     className={`w-16 p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
                   />
                   <span className={`ml-2 text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
@@ -205,6 +311,48 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 </p>
               </div>
               
+              <div>
+                <label className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} block mb-2`}>
+                  Daily Goal
+                </label>
+                <div className="flex items-center">
+                  <input 
+                    type="number" 
+                    min={SETTINGS_RANGES.dailyGoal.min} 
+                    max={SETTINGS_RANGES.dailyGoal.max} 
+                    value={settings.dailyGoal} 
+                    onChange={e => updateNumberSetting('dailyGoal', e.target.value)} 
+                    className={`w-16 p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
+                  />
+                  <span className={`ml-2 text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    pomodoros per day
+                  </span>
+                </div>
+                <p className={`text-xs mt-1 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Set to 0 to hide the daily goal
+                </p>
+              </div>
+              
+              <div>
+                <label className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} block mb-2`}>
+                  Day Starts At
+                </label>
+                <select 
+                  value={settings.dayStartHour} 
+                  onChange={e => onSettingsChange({ ...settings, dayStartHour: parseInt(e.target.value) })} 
+                  className={`p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>
+                      {hour.toString().padStart(2, '0')}:00
+                    </option>
+                  ))}
+                </select>
+                <p className={`text-xs mt-1 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Pomodoros before this hour count towards the previous day
+                </p>
+              </div>
+              
               <div className="flex justify-between items-center">
                 <span className={settings.darkMode ? 'text-gray-300' : 'text-gray-700'}>
                   Auto Start Breaks
@@ -221,6 +369,151 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   <span className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.autoStartPomodoros ? 'right-0.5' : 'left-0.5'} shadow`}></span>
                 </button>
               </div>
+              <div>
+                <div className="flex justify-between items-center">
+                  <span className={settings.darkMode ? 'text-gray-300' : 'text-gray-700'}>
+                    Flow Mode
+                  </span>
+                  <button className={`w-12 h-6 rounded-full relative ${settings.flowMode ? 'bg-blue-600' : settings.darkMode ? 'bg-gray-600' : 'bg-gray-200'}`} onClick={() => toggleSetting('flowMode')}>
+                    <span className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.flowMode ? 'right-0.5' : 'left-0.5'} shadow`}></span>
+                  </button>
+                </div>
+                <p className={`text-xs mt-1 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  When a pomodoro ends, ring the alarm but keep counting overtime until you finish it
+                </p>
+              </div>
+              <div>
+                <label className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} block mb-2`}>
+                  Abandon Paused Pomodoros After
+                </label>
+                <div className="flex items-center">
+                  <input 
+                    type="number" 
+                    min={SETTINGS_RANGES.pauseTimeoutMinutes.min} 
+                    max={SETTINGS_RANGES.pauseTimeoutMinutes.max} 
+                    value={settings.pauseTimeoutMinutes} 
+                    onChange={e => updateNumberSetting('pauseTimeoutMinutes', e.target.value)} 
+                    className={`w-16 p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
+                  />
+                  <span className={`ml-2 text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    minutes
+                  </span>
+                </div>
+                <p className={`text-xs mt-1 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  The timer resets and the session shows as abandoned in reports. Set to 0 to never abandon.
+                </p>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className={settings.darkMode ? 'text-gray-300' : 'text-gray-700'}>
+                  Log Minutes of Abandoned Pomodoros
+                </span>
+                <button className={`w-12 h-6 rounded-full relative ${settings.logAbandonedMinutes ? 'bg-blue-600' : settings.darkMode ? 'bg-gray-600' : 'bg-gray-200'}`} onClick={() => toggleSetting('logAbandonedMinutes')}>
+                  <span className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.logAbandonedMinutes ? 'right-0.5' : 'left-0.5'} shadow`}></span>
+                </button>
+              </div>
+              <div>
+                <label className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} block mb-2`}>
+                  Ask About Time Away After
+                </label>
+                <div className="flex items-center">
+                  <input 
+                    type="number" 
+                    min={SETTINGS_RANGES.awayThresholdMinutes.min} 
+                    max={SETTINGS_RANGES.awayThresholdMinutes.max} 
+                    value={settings.awayThresholdMinutes} 
+                    onChange={e => updateNumberSetting('awayThresholdMinutes', e.target.value)} 
+                    className={`w-16 p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
+                  />
+                  <span className={`ml-2 text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    minutes
+                  </span>
+                  {settings.awayThresholdMinutes > 0 && idlePermission === 'prompt' && (
+                    <button 
+                      onClick={allowIdleDetection} 
+                      className={`ml-auto px-3 py-1 rounded text-sm ${settings.darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+                    >
+                      Use system idle detection
+                    </button>
+                  )}
+                </div>
+                <p className={`text-xs mt-1 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {idlePermission === 'granted'
+                    ? 'When you come back from being idle or having your screen locked during a pomodoro, choose whether that time counts as focus.'
+                    : 'When you come back to PomoSpace after no activity on it during a pomodoro, choose whether that time counts as focus.'}
+                  {' '}Set to 0 to never ask.
+                </p>
+              </div>
+            </div>
+          </div>
+          {/* Focus Schedule Settings */}
+          <div>
+            <h3 className={`text-sm font-semibold ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} mb-3`}>
+              FOCUS SCHEDULE
+            </h3>
+            <div className="space-y-3">
+              {settings.focusSchedule.map(block => (
+                <div key={block.id} className={`p-3 rounded space-y-2 ${settings.darkMode ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+                  <div className="flex items-center gap-2">
+                    <input 
+                      type="time" 
+                      value={block.startTime} 
+                      onChange={e => e.target.value && updateScheduledBlock(block.id, { startTime: e.target.value })} 
+                      className={`p-1 rounded text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
+                      aria-label="Start time"
+                    />
+                    <span className={settings.darkMode ? 'text-gray-400' : 'text-gray-500'}>–</span>
+                    <input 
+                      type="time" 
+                      value={block.endTime} 
+                      onChange={e => e.target.value && updateScheduledBlock(block.id, { endTime: e.target.value })} 
+                      className={`p-1 rounded text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} 
+                      aria-label="End time"
+                    />
+                    <button 
+                      onClick={() => onSettingsChange({ ...settings, focusSchedule: settings.focusSchedule.filter(item => item.id !== block.id) })} 
+                      className={`ml-auto ${settings.darkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}
+                      aria-label="Delete focus block"
+                    >
+                      <TrashIcon size={16} />
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    {DAY_LABELS.map((label, day) => (
+                      <button 
+                        key={label} 
+                        onClick={() => toggleScheduledBlockDay(block, day)} 
+                        className={`flex-1 py-1 rounded text-xs ${
+                          block.days.includes(day)
+                            ? 'bg-blue-600 text-white'
+                            : settings.darkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <select 
+                    value={block.taskId || ''} 
+                    onChange={e => updateScheduledBlock(block.id, { taskId: e.target.value || null })} 
+                    className={`w-full p-2 rounded text-sm ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`}
+                  >
+                    <option value="">Keep the active task</option>
+                    {tasks.filter(task => !task.completed || task.id === block.taskId).map(task => (
+                      <option key={task.id} value={task.id}>{task.text}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <button 
+                onClick={() => onSettingsChange({ ...settings, focusSchedule: [...settings.focusSchedule, createScheduledBlock()] })} 
+                className={`w-full flex items-center justify-center px-3 py-2 rounded text-sm ${settings.darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+              >
+                <PlusIcon size={16} className="mr-2" />
+                Add focus block
+              </button>
+              <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                A pomodoro starts on its own when a block begins. Blocks missed while PomoSpace is closed are shown on the timer.
+              </p>
             </div>
           </div>
           {/* Sound Settings */}
@@ -234,19 +527,80 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   Alarm Sound
                 </label>
                 <div className="flex items-center space-x-2">
-                  <select value={settings.sound?.alarmSound || 'kitchen'} onChange={e => updateSoundSetting('alarmSound', e.target.value)} className={`flex-grow p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`}>
+                  <select value={settings.sound.alarmSound} onChange={e => updateSoundSetting('alarmSound', e.target.value)} className={`flex-grow p-2 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`}>
                     <option value="kitchen">Alarm Clock</option>
                     <option value="digital">Digital</option>
                     <option value="bell">Pager</option>
                   </select>
-                  <input type="range" min="0" max="100" value={settings.sound?.alarmVolume || 50} onChange={e => updateSoundSetting('alarmVolume', parseInt(e.target.value))} className="w-24" />
+                  <input type="range" min={SETTINGS_RANGES.alarmVolume.min} max={SETTINGS_RANGES.alarmVolume.max} value={settings.sound.alarmVolume} onChange={e => updateSoundSetting('alarmVolume', parseInt(e.target.value))} className="w-24" />
                 </div>
                 <div className="flex items-center mt-2">
                   <span className={`text-sm ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'} mr-2`}>
                     Repeat
                   </span>
-                  <input type="number" min="1" max="10" value={settings.sound?.alarmRepeat || 1} onChange={e => updateSoundSetting('alarmRepeat', parseInt(e.target.value))} className={`w-16 p-1 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
+                  <input type="number" min={SETTINGS_RANGES.alarmRepeat.min} max={SETTINGS_RANGES.alarmRepeat.max} value={settings.sound.alarmRepeat} onChange={e => updateSoundSetting('alarmRepeat', parseInt(e.target.value))} className={`w-16 p-1 rounded ${settings.darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'}`} />
+                </div>
+              </div>
+            </div>
+          </div>
+          {/* Notification Settings */}
+          <div>
+            <h3 className={`text-sm font-semibold ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} mb-3`}>
+              NOTIFICATIONS
+            </h3>
+            <div>
+              <div className="flex justify-between items-center">
+                <span className={settings.darkMode ? 'text-gray-300' : 'text-gray-700'}>
+                  Desktop Notifications
+                </span>
+                <button className={`w-12 h-6 rounded-full relative ${settings.notifications ? 'bg-blue-600' : settings.darkMode ? 'bg-gray-600' : 'bg-gray-200'}`} onClick={toggleNotifications}>
+                  <span className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.notifications ? 'right-0.5' : 'left-0.5'} shadow`}></span>
+                </button>
+              </div>
+              <p className={`text-xs mt-1 ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {notificationPermission === 'unsupported'
+                  ? 'This browser can\'t show notifications, phase changes are shown on the timer instead'
+                  : notificationPermission === 'denied'
+                    ? 'Notifications are blocked for this site, phase changes are shown on the timer instead. Allow them in the browser\'s site settings to get them on the desktop.'
+                    : 'Get notified when a phase ends, with buttons to start or skip the break or wait 5 more minutes'}
+              </p>
+            </div>
+          </div>
+          {/* Keyboard Shortcut Settings */}
+          <div>
+            <h3 className={`text-sm font-semibold ${settings.darkMode ? 'text-gray-300' : 'text-gray-600'} mb-3`}>
+              KEYBOARD SHORTCUTS
+            </h3>
+            <div className="space-y-2">
+              {SHORTCUT_ACTIONS.map(action => (
+                <div key={action} className="flex justify-between items-center">
+                  <span className={`text-sm ${settings.darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {SHORTCUT_LABELS[action]}
+                  </span>
+                  <button 
+                    onClick={() => setCapturingAction(capturingAction === action ? null : action)} 
+                    onKeyDown={handleShortcutKeyDown} 
+                    onBlur={() => setCapturingAction(null)} 
+                    className={`min-w-[5rem] px-2 py-1 rounded text-sm font-mono ${
+                      capturingAction === action
+                        ? 'bg-blue-600 text-white'
+                        : settings.darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                    }`}
+                  >
+                    {capturingAction === action ? 'Press a key' : formatKey(settings.keymap[action])}
+                  </button>
                 </div>
+              ))}
+              <div className="flex justify-between items-center pt-1">
+                <p className={`text-xs ${settings.darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Click a shortcut, then press the new key. Esc cancels.
+                </p>
+                <button 
+                  onClick={() => onSettingsChange({ ...settings, keymap: DEFAULT_KEYMAP })} 
+                  className={`text-xs underline ${settings.darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Reset to defaults
+                </button>
               </div>
             </div>
           </div>
@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { XIcon } from 'lucide-react';
+import { Keymap, SHORTCUT_ACTIONS, SHORTCUT_LABELS, formatKey } from '../utils/keymap';
+
+interface ShortcutsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  keymap: Keymap;
+  darkMode: boolean;
+}
+
+export const ShortcutsModal: React.FC<ShortcutsModalProps> = ({
+  isOpen,
+  onClose,
+  keymap,
+  darkMode
+}) => {
+  // Effect to close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`${darkMode ? 'bg-gray-800' : 'bg-white/90 backdrop-blur-sm'} rounded-lg w-full max-w-sm`}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className={`p-4 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'} flex justify-between items-center`}>
+          <h2 className={`text-xl font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+            Keyboard Shortcuts
+          </h2>
+          <button onClick={onClose} className={`${darkMode ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'}`}>
+            <XIcon size={20} />
+          </button>
+        </div>
+        <ul className="p-4 space-y-2">
+          {SHORTCUT_ACTIONS.map(action => (
+            <li key={action} className="flex justify-between items-center">
+              <span className={darkMode ? 'text-gray-300' : 'text-gray-700'}>{SHORTCUT_LABELS[action]}</span>
+              <kbd className={`px-2 py-0.5 rounded text-sm font-mono ${darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-800'}`}>
+                {formatKey(keymap[action])}
+              </kbd>
+            </li>
+          ))}
+        </ul>
+        <p className={`px-4 pb-4 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Shortcuts can be changed in Settings. They don't work while typing in a text field.
+        </p>
+      </div>
+    </div>
+  );
+};
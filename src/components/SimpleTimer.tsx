@@ -1,41 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { createTimerMachine, createMemoryTimerStorage } from '../utils/timerMachine';
+import { useTimerMachine } from '../hooks/useTimerMachine';
 
-const SimpleTimer: React.FC = () => {
-  const [seconds, setSeconds] = useState(300); // 5 minutes
-  const [isActive, setIsActive] = useState(false);
-
-  useEffect(() => {
-    console.log('SimpleTimer effect, isActive:', isActive, 'seconds:', seconds);
-    let intervalId: NodeJS.Timeout;
-
-    if (isActive && seconds > 0) {
-      console.log('Starting simple timer interval');
-      intervalId = setInterval(() => {
-        console.log('Simple timer tick');
-        setSeconds(prevSeconds => prevSeconds - 1);
-      }, 1000);
-    } else if (seconds === 0) {
-      console.log('Timer complete');
-      setIsActive(false);
-    }
+// A single five-minute phase that never auto-starts anything
+const SIMPLE_TIMER_SETTINGS = {
+  timerDurations: { pomodoro: 5, shortBreak: 5, longBreak: 5 },
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartPomodoros: false
+};
 
-    return () => {
-      if (intervalId) {
-        console.log('Clearing simple timer interval');
-        clearInterval(intervalId);
-      }
-    };
-  }, [isActive, seconds]);
+const SimpleTimer: React.FC = () => {
+  const [machine] = useState(() => createTimerMachine({
+    settings: SIMPLE_TIMER_SETTINGS,
+    storage: createMemoryTimerStorage()
+  }));
+  const { state, timeRemaining } = useTimerMachine(machine);
+  
+  const isActive = state.status === 'running';
+  
+  // Once the phase is done we stay at zero until reset
+  const seconds = state.status === 'completed' ? 0 : timeRemaining;
 
   const toggleTimer = () => {
     console.log('Toggle simple timer:', !isActive);
-    setIsActive(!isActive);
+    if (isActive) {
+      machine.send({ type: 'pause' });
+    } else if (state.status === 'paused') {
+      machine.send({ type: 'resume' });
+    } else if (state.status === 'idle') {
+      machine.send({ type: 'start' });
+    }
   };
 
   const resetTimer = () => {
     console.log('Reset simple timer');
-    setIsActive(false);
-    setSeconds(300);
+    machine.send({ type: 'switchType', timerType: 'pomodoro' });
+    machine.send({ type: 'reset' });
   };
 
   const formatTime = (totalSeconds: number) => {
@@ -68,4 +69,4 @@ const SimpleTimer: React.FC = () => {
   );
 };
 
-export default SimpleTimer; 
\ No newline at end of file
+export default SimpleTimer;
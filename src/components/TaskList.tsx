@@ -1,16 +1,9 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { PlusIcon, MinusIcon, ChevronDownIcon, PlayIcon, FlagIcon, ArrowDownIcon, ArrowUpIcon } from 'lucide-react';
 import { Task } from './Task';
-
-interface TaskItem {
-  id: string;
-  text: string;
-  completed: boolean;
-  estimatedPomodoros: number;
-  completedPomodoros: number;
-  category?: string;
-  priority?: 'low' | 'medium' | 'high';
-}
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { Keymap } from '../utils/keymap';
+import type { TaskItem } from '../hooks/useTasks';
 
 interface TaskHistoryItem {
   id: string;
@@ -24,8 +17,12 @@ interface TaskHistoryItem {
 interface TaskListProps {
   timerMode: string;
   darkMode: boolean;
+  tasks: TaskItem[];
+  setTasks: React.Dispatch<React.SetStateAction<TaskItem[]>>;
   activeTaskId: string | null;
   setActiveTaskId: React.Dispatch<React.SetStateAction<string | null>>;
+  keymap: Keymap;
+  shortcutsEnabled?: boolean;
 }
 
 // Pre-defined categories
@@ -41,14 +38,13 @@ const PRIORITIES = [
 export const TaskList: React.FC<TaskListProps> = ({
   timerMode,
   darkMode,
+  tasks,
+  setTasks,
   activeTaskId,
-  setActiveTaskId
+  setActiveTaskId,
+  keymap,
+  shortcutsEnabled = true
 }) => {
-  const [tasks, setTasks] = useState<TaskItem[]>(() => {
-    const savedTasks = localStorage.getItem('pomoSpaceTasks');
-    return savedTasks ? JSON.parse(savedTasks) : [];
-  });
-  
   const [newTaskText, setNewTaskText] = useState('');
   const [estimatedPomodoros, setEstimatedPomodoros] = useState(1);
   const [selectedCategory, setSelectedCategory] = useState('Work');
@@ -64,11 +60,6 @@ export const TaskList: React.FC<TaskListProps> = ({
     return savedHistory ? JSON.parse(savedHistory) : [];
   });
   
-  // Save tasks to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('pomoSpaceTasks', JSON.stringify(tasks));
-  }, [tasks]);
-  
   // Save task history to localStorage
   useEffect(() => {
     localStorage.setItem('pomoSpaceTaskHistory', JSON.stringify(taskHistory));
@@ -176,6 +167,28 @@ export const TaskList: React.FC<TaskListProps> = ({
     });
   };
   
+  // Make the next (or previous) unfinished task in the list the active one,
+  // wrapping around at either end
+  const moveActiveTask = (step: 1 | -1) => {
+    const openTasks = getSortedTasks().filter(task => !task.completed);
+    if (openTasks.length === 0) return;
+    
+    const index = openTasks.findIndex(task => task.id === activeTaskId);
+    const nextIndex = index === -1
+      ? (step === 1 ? 0 : openTasks.length - 1)
+      : (index + step + openTasks.length) % openTasks.length;
+    
+    setActiveTaskId(openTasks[nextIndex].id);
+  };
+  
+  const newTaskInputRef = useRef<HTMLInputElement>(null);
+  
+  useKeyboardShortcuts(keymap, {
+    newTask: () => newTaskInputRef.current?.focus(),
+    nextTask: () => moveActiveTask(1),
+    previousTask: () => moveActiveTask(-1)
+  }, shortcutsEnabled);
+  
   // Toggle sort direction
   const toggleSortDirection = () => {
     setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -191,6 +204,7 @@ export const TaskList: React.FC<TaskListProps> = ({
       <div className="w-full mb-8 mx-auto">
         <div className="relative mb-4">
           <input 
+            ref={newTaskInputRef}
             type="text" 
             placeholder="What are you working on?" 
             className="w-full p-4 bg-white/20 border border-white/20 text-white rounded-lg focus:outline-none focus:ring-1 focus:ring-white/30 placeholder-white/70" 
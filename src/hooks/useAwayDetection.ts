@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AwayPeriod } from '../utils/awayTime';
+import { watchIdleState } from '../utils/idleDetection';
+
+// Events that show the user is at the page
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+// How often the page checks for inactivity when it can't use idle detection
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Notice the user going away while `watching` (a pomodoro is running) and
+ * report the away period once they're back. Uses system idle detection when
+ * it's allowed, and otherwise input on the page and whether it's visible:
+ * no input for `thresholdMinutes` counts as away from the moment of the last one.
+ * A threshold of 0 turns detection off.
+ */
+export function useAwayDetection(watching: boolean, thresholdMinutes: number) {
+  const thresholdMs = thresholdMinutes * 60 * 1000;
+
+  // Away period the user came back from, until they say what it was
+  const [awayPeriod, setAwayPeriod] = useState<AwayPeriod | null>(null);
+  const [isAway, setIsAway] = useState(false);
+
+  // Listeners outlive renders, so they read these refs
+  const awaySinceRef = useRef<number | null>(null);
+  const awayPeriodRef = useRef<AwayPeriod | null>(null);
+  awayPeriodRef.current = awayPeriod;
+
+  // Last moment the pomodoro was seen running. Renders come with every timer
+  // tick, so this stays current; it lets an away period that outlasted the
+  // pomodoro still count.
+  const watchedUntilRef = useRef(0);
+  if (watching) {
+    watchedUntilRef.current = Date.now();
+  }
+
+  // Helper function to start an away period, if it overlaps a running pomodoro
+  const markAway = useCallback((since: number) => {
+    if (awaySinceRef.current !== null || awayPeriodRef.current) return;
+    if (watchedUntilRef.current <= since) return;
+
+    awaySinceRef.current = since;
+    setIsAway(true);
+  }, []);
+
+  // Helper function to end the away period, if there is one
+  const markBack = useCallback((at: number) => {
+    const since = awaySinceRef.current;
+    if (since === null) return;
+
+    awaySinceRef.current = null;
+    setIsAway(false);
+    setAwayPeriod({ startedAt: since, endedAt: at });
+  }, []);
+
+  // Effect to watch for inactivity
+  useEffect(() => {
+    if (thresholdMs <= 0) return;
+
+    let lastActivity = Date.now();
+    let stopIdleDetection: (() => void) | null = null;
+    let isStopped = false;
+
+    // Activity on the page ends an away period, and can reveal one the
+    // throttled check of a background tab hasn't noticed yet
+    const handleActivity = () => {
+      const now = Date.now();
+      if (!stopIdleDetection && now - lastActivity >= thresholdMs) {
+        markAway(lastActivity);
+      }
+
+      lastActivity = now;
+      markBack(now);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        handleActivity();
+      }
+    };
+
+    const interval = window.setInterval(() => {
+      if (!stopIdleDetection && Date.now() - lastActivity >= thresholdMs) {
+        markAway(lastActivity);
+      }
+    }, CHECK_INTERVAL_MS);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // System idle detection takes over from the page checks once it's running.
+    // It reports idleness once the threshold has passed, so it started then.
+    watchIdleState(thresholdMs, isIdle => {
+      if (isIdle) {
+        markAway(Date.now() - thresholdMs);
+      } else {
+        markBack(Date.now());
+      }
+    }).then(stop => {
+      if (isStopped) {
+        stop?.();
+      } else {
+        stopIdleDetection = stop;
+      }
+    });
+
+    return () => {
+      isStopped = true;
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      stopIdleDetection?.();
+    };
+  }, [thresholdMs, markAway, markBack]);
+
+  const clearAwayPeriod = useCallback(() => setAwayPeriod(null), []);
+
+  return { isAway, awayPeriod, clearAwayPeriod };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ScheduledBlock,
+  ScheduledBlockOccurrence,
+  MISSED_BLOCKS_KEY,
+  SCHEDULE_CHECKED_KEY,
+  checkFocusSchedule,
+  loadMissedBlocks,
+  saveMissedBlocks
+} from '../utils/focusSchedule';
+
+// How often the schedule is checked while the app is open
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Start scheduled focus blocks when they begin, and collect the ones that
+ * passed while the app was closed. Only one tab should check (`enabled`),
+ * so a block isn't started or reported twice. Every tab shows the missed ones.
+ */
+export function useFocusSchedule(
+  schedule: ScheduledBlock[],
+  enabled: boolean,
+  onBlockStart: (block: ScheduledBlock, occurrence: ScheduledBlockOccurrence) => void
+) {
+  const [missedBlocks, setMissedBlocks] = useState<ScheduledBlockOccurrence[]>(loadMissedBlocks);
+
+  // The interval reads the latest schedule and callback
+  const scheduleRef = useRef(schedule);
+  scheduleRef.current = schedule;
+  const onBlockStartRef = useRef(onBlockStart);
+  onBlockStartRef.current = onBlockStart;
+
+  // Effect to check the schedule now and every little while after
+  useEffect(() => {
+    if (!enabled) return;
+
+    const checkSchedule = () => {
+      const now = Date.now();
+      const savedCheckedAt = parseInt(localStorage.getItem(SCHEDULE_CHECKED_KEY) || '', 10);
+      localStorage.setItem(SCHEDULE_CHECKED_KEY, now.toString());
+
+      // Nothing counts as missed from before the schedule was first checked
+      if (isNaN(savedCheckedAt)) return;
+
+      const { due, missed } = checkFocusSchedule(scheduleRef.current, savedCheckedAt, now);
+
+      if (missed.length > 0) {
+        console.log(`Missed ${missed.length} focus block(s) while the app was closed`);
+        const updated = [...loadMissedBlocks(), ...missed];
+        saveMissedBlocks(updated);
+        setMissedBlocks(updated);
+      }
+
+      const block = due && scheduleRef.current.find(item => item.id === due.blockId);
+      if (block) {
+        console.log(`Focus block ${block.startTime}–${block.endTime} starting`);
+        onBlockStartRef.current(block, due);
+      }
+    };
+
+    checkSchedule();
+    const interval = window.setInterval(checkSchedule, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [enabled]);
+
+  // Effect to show missed blocks found, or dismissed, in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === MISSED_BLOCKS_KEY) {
+        setMissedBlocks(loadMissedBlocks());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const dismissMissedBlocks = useCallback(() => {
+    saveMissedBlocks([]);
+    setMissedBlocks([]);
+  }, []);
+
+  return { missedBlocks, dismissMissedBlocks };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { Keymap, ShortcutAction, getShortcutAction, isTypingTarget } from '../utils/keymap';
+
+type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * Run a handler when its shortcut is pressed anywhere on the page.
+ * Each component passes the actions it owns; the others are left alone.
+ * Key presses in text fields and with Ctrl, Alt or Meta held are ignored.
+ */
+export function useKeyboardShortcuts(keymap: Keymap, handlers: ShortcutHandlers, enabled = true) {
+  // Handlers change every render, the listener reads the latest ones
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey || event.repeat) return;
+      if (isTypingTarget(event.target)) return;
+
+      const action = getShortcutAction(keymap, event.key);
+      const handler = action ? handlersRef.current[action] : undefined;
+      if (!handler) return;
+
+      event.preventDefault();
+
+      // A focused button would also be clicked when the key is released
+      if (event.target instanceof HTMLButtonElement) {
+        event.target.blur();
+      }
+
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, enabled]);
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TimerControls, TimerType } from './useTimer';
+import {
+  NotificationAction,
+  PhaseNotification,
+  getPhaseNotification,
+  showPhaseNotification,
+  schedulePhaseNotification,
+  cancelPhaseNotification,
+  subscribeNotificationActions
+} from '../utils/notifications';
+
+// Minutes waited by "Start in 5 min" on a notification
+export const POSTPONE_MINUTES = 5;
+
+/**
+ * End-of-phase notifications for a timer: shown on the desktop when allowed,
+ * scheduled ahead with the service worker for when the tab is closed, and as
+ * an in-page notice otherwise. Buttons act on the timer wherever they're clicked.
+ */
+export function usePhaseNotifications(timer: TimerControls, enabled: boolean, taskName: string | null) {
+  const { status, timerType, upcomingCompletion, startTimer, skipPhase, postponeNextPhase } = timer;
+
+  // Completion shown in the page when a desktop notification can't be
+  const [completionNotice, setCompletionNotice] = useState<PhaseNotification | null>(null);
+
+  // Tell the user a phase ended, on the desktop if allowed or else in the page
+  const notifyPhaseComplete = (completedType: TimerType, nextType: TimerType) => {
+    if (!enabled || completedType === 'stopwatch') return;
+
+    const notification = getPhaseNotification(completedType, nextType, taskName, POSTPONE_MINUTES);
+    showPhaseNotification(notification).then(shown => {
+      if (!shown) {
+        setCompletionNotice(notification);
+      }
+    });
+  };
+
+  // Act on a notification button, clicked on the desktop or in the notice
+  const handleNotificationAction = (action: NotificationAction) => {
+    setCompletionNotice(null);
+
+    if (action === 'start') {
+      startTimer();
+    } else if (action === 'skip') {
+      skipPhase();
+    } else {
+      postponeNextPhase(POSTPONE_MINUTES);
+    }
+  };
+
+  // The service worker listener outlives renders, so it goes through a ref
+  const notificationActionRef = useRef(handleNotificationAction);
+  notificationActionRef.current = handleNotificationAction;
+
+  // Effect to follow buttons clicked on desktop notifications
+  useEffect(() => {
+    return subscribeNotificationActions(action => notificationActionRef.current(action));
+  }, []);
+
+  // Effect to hand the coming completion to the service worker, which notifies
+  // even if the tab is closed. Deliberately not cancelled on unmount for that reason.
+  const upcomingAt = upcomingCompletion ? upcomingCompletion.at : null;
+  const upcomingNextType = upcomingCompletion ? upcomingCompletion.nextType : null;
+  useEffect(() => {
+    if (!enabled || upcomingAt === null || upcomingNextType === null) {
+      cancelPhaseNotification();
+      return;
+    }
+
+    schedulePhaseNotification(upcomingAt, getPhaseNotification(timerType, upcomingNextType, taskName, POSTPONE_MINUTES));
+  }, [enabled, upcomingAt, upcomingNextType, timerType, taskName]);
+
+  // Effect to drop the notice once the next phase is under way
+  useEffect(() => {
+    if (status === 'running' || status === 'overtime') {
+      setCompletionNotice(null);
+    }
+  }, [status]);
+
+  return {
+    completionNotice,
+    notifyPhaseComplete,
+    handleNotificationAction,
+    dismissCompletionNotice: () => setCompletionNotice(null)
+  };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppRoute, getRoutePath, parseRoute } from '../utils/routes';
+
+// Helper function to read the route from the address bar
+const getCurrentRoute = (): AppRoute => parseRoute(window.location.pathname, window.location.search);
+
+/**
+ * The current route, kept in step with the address bar and the back button.
+ * `navigate` adds a history entry, or replaces the current one with `replace`.
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<AppRoute>(getCurrentRoute);
+
+  // Effect to follow the back and forward buttons
+  useEffect(() => {
+    const handlePopState = () => setRoute(getCurrentRoute());
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: AppRoute, replace = false) => {
+    const path = getRoutePath(next);
+    const current = `${window.location.pathname}${window.location.search}`;
+
+    if (replace) {
+      window.history.replaceState(null, '', path);
+    } else if (path !== current) {
+      window.history.pushState(null, '', path);
+    }
+
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import type { TimerStatus, TimerType } from '../utils/timerMachine';
+import { PHASE_COLORS, drawProgressFavicon, formatTabTitle, getFavicon, setFavicon } from '../utils/tabIndicator';
+
+interface UseTabIndicatorOptions {
+  time: string;              // Countdown as displayed on the timer
+  timerType: TimerType;
+  status: TimerStatus;
+  progress: number;          // 0 to 1, how much of the phase has passed
+  taskName: string | null;
+}
+
+// Favicon redraws per phase, finer steps wouldn't be visible at 16px
+const FAVICON_STEPS = 60;
+
+/**
+ * Mirror the timer in the page title and favicon while a phase is under way.
+ * Renders are driven by the worker ticks, so this keeps going in background tabs.
+ */
+export function useTabIndicator({ time, timerType, status, progress, taskName }: UseTabIndicatorOptions) {
+  // What the page showed before we took over, put back when the timer stops
+  const originalTitleRef = useRef(document.title);
+  const originalFaviconRef = useRef(getFavicon());
+
+  const isActive = status === 'running' || status === 'paused' || status === 'overtime';
+  const progressStep = status === 'overtime' ? FAVICON_STEPS : Math.round(progress * FAVICON_STEPS);
+
+  // Effect to keep the title in step with the countdown
+  useEffect(() => {
+    document.title = isActive
+      ? formatTabTitle(time, timerType, taskName)
+      : originalTitleRef.current;
+  }, [isActive, time, timerType, taskName]);
+
+  // Effect to redraw the favicon ring when it visibly moves
+  useEffect(() => {
+    const favicon = isActive ? drawProgressFavicon(progressStep / FAVICON_STEPS, PHASE_COLORS[timerType]) : null;
+
+    if (favicon) {
+      setFavicon(favicon);
+    } else if (originalFaviconRef.current) {
+      setFavicon(originalFaviconRef.current);
+    }
+  }, [isActive, progressStep, timerType]);
+
+  // Effect to restore the page when the timer goes away
+  useEffect(() => {
+    const originalTitle = originalTitleRef.current;
+    const originalFavicon = originalFaviconRef.current;
+
+    return () => {
+      document.title = originalTitle;
+      if (originalFavicon) {
+        setFavicon(originalFavicon);
+      }
+    };
+  }, []);
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+
+export interface TaskItem {
+  id: string;
+  text: string;
+  completed: boolean;
+  estimatedPomodoros: number;
+  completedPomodoros: number;
+  category?: string;
+  priority?: 'low' | 'medium' | 'high';
+}
+
+const TASKS_KEY = 'pomoSpaceTasks';
+
+// Helper function to read the saved tasks, starting empty if they're unreadable
+const loadTasks = (): TaskItem[] => {
+  try {
+    const savedTasks = localStorage.getItem(TASKS_KEY);
+    return savedTasks ? JSON.parse(savedTasks) : [];
+  } catch (e) {
+    console.error('Error reading tasks from localStorage:', e);
+    return [];
+  }
+};
+
+/**
+ * The task list, persisted to localStorage. Kept in App so the timer, the
+ * task list and the command palette all work on the same tasks.
+ */
+export function useTasks() {
+  const [tasks, setTasks] = useState<TaskItem[]>(loadTasks);
+
+  // Save tasks to localStorage whenever they change
+  useEffect(() => {
+    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+  }, [tasks]);
+
+  // Add a task with the given details, returning it
+  const addTask = (text: string, details: Partial<Omit<TaskItem, 'id' | 'text'>> = {}): TaskItem => {
+    const newTask: TaskItem = {
+      id: Date.now().toString(),
+      text,
+      completed: false,
+      estimatedPomodoros: 1,
+      completedPomodoros: 0,
+      ...details
+    };
+
+    setTasks(prev => [...prev, newTask]);
+    return newTask;
+  };
+
+  return { tasks, setTasks, addTask };
+}
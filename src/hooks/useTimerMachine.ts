@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from 'react';
+import { TimerMachine, TimerEffect } from '../utils/timerMachine';
+import { TimerScheduler, createTimerScheduler } from '../utils/timerScheduler';
+
+// How often the display refreshes while something is counting
+const DISPLAY_REFRESH_MS = 200;
+
+/**
+ * Drive a timer machine from React: subscribe to its state, fire its
+ * deadlines on time and refresh the countdown display. Ticks and deadlines
+ * come from a worker so they stay on time in background tabs.
+ */
+export function useTimerMachine(machine: TimerMachine, onEffects?: (effects: TimerEffect[]) => void) {
+  const [state, setState] = useState(() => machine.getState());
+  const [timeRemaining, setTimeRemaining] = useState(() => machine.getTimeRemaining());
+  const [autoStartCountdown, setAutoStartCountdown] = useState(() => machine.getAutoStartCountdown());
+  const [overtime, setOvertime] = useState(() => machine.getOvertime());
+  const [elapsed, setElapsed] = useState(() => machine.getElapsed());
+
+  // Keep the latest effect handler without resubscribing
+  const onEffectsRef = useRef(onEffects);
+  onEffectsRef.current = onEffects;
+
+  // Worker-backed scheduler for deadlines and display ticks
+  const schedulerRef = useRef<TimerScheduler | null>(null);
+
+  // Subscribe to the machine and catch up with anything due since it was stored
+  useEffect(() => {
+    const refreshDisplay = () => {
+      setTimeRemaining(machine.getTimeRemaining());
+      setAutoStartCountdown(machine.getAutoStartCountdown());
+      setOvertime(machine.getOvertime());
+      setElapsed(machine.getElapsed());
+    };
+
+    const unsubscribe = machine.subscribe((newState, effects) => {
+      setState(newState);
+      refreshDisplay();
+
+      if (effects.length > 0 && onEffectsRef.current) {
+        onEffectsRef.current(effects);
+      }
+    });
+
+    // Ticks also advance, in case a deadline fired a little early
+    const scheduler = createTimerScheduler({
+      onDeadline: () => machine.advance(),
+      onTick: () => {
+        machine.advance();
+        refreshDisplay();
+      }
+    });
+    schedulerRef.current = scheduler;
+
+    // Browsers may still delay the worker while hidden, so catch up on return
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        machine.advance();
+        refreshDisplay();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    machine.advance();
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      scheduler.stop();
+      schedulerRef.current = null;
+      unsubscribe();
+    };
+  }, [machine]);
+
+  // Fire the next deadline (phase end or auto-start) exactly when it is due
+  useEffect(() => {
+    if (schedulerRef.current) {
+      schedulerRef.current.scheduleDeadline(machine.getNextDeadline());
+    }
+  }, [machine, state]);
+
+  // Refresh the display while the timer, its overtime or an auto-start countdown is active
+  const isCounting = state.status === 'running' || state.status === 'overtime' || !!state.pendingAutoStart;
+
+  useEffect(() => {
+    if (schedulerRef.current) {
+      schedulerRef.current.setTicking(isCounting ? DISPLAY_REFRESH_MS : null);
+    }
+  }, [machine, isCounting]);
+
+  return {
+    state,
+    timeRemaining,
+    autoStartCountdown,
+    overtime,
+    elapsed
+  };
+}
@@ -1,5 +1,11 @@
 import './index.css';
 import React from "react";
 import { render } from "react-dom";
-import { App } from "./App";
-render(<App />, document.getElementById("root"));
\ No newline at end of file
+import { Boot } from "./components/Boot";
+import { registerServiceWorker } from "./utils/serviceWorker";
+render(<Boot />, document.getElementById("root"));
+
+// Offline support, only for builds so development always gets fresh files
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
@@ -0,0 +1,58 @@
+/**
+ * Time away during a pomodoro
+ * When the user comes back after a stretch of inactivity, they choose what
+ * that stretch was: focus after all, time that shouldn't count, or a break.
+ * A break comes off the pomodoro like discarded time, and the pomodoro's
+ * history entry notes it as a break rather than time away.
+ */
+
+// A stretch of inactivity during a pomodoro, as Unix timestamps
+export interface AwayPeriod {
+  startedAt: number;
+  endedAt: number;
+}
+
+// What to do with the time away
+export type AwayChoice = 'keep' | 'discard' | 'break';
+
+// Minutes taken off a pomodoro's focus time, and whether they were a break
+export interface AwayAdjustment {
+  minutes: number;
+  asBreak: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Length of an away period in whole minutes
+ */
+export const getAwayMinutes = (period: AwayPeriod): number => {
+  return Math.round((period.endedAt - period.startedAt) / MINUTE_MS);
+};
+
+/**
+ * Whole minutes of an away period that fall between `from` and `to`
+ */
+export const getAwayMinutesBetween = (period: AwayPeriod, from: number, to: number): number => {
+  const overlap = Math.min(period.endedAt, to) - Math.max(period.startedAt, from);
+  return Math.max(0, Math.round(overlap / MINUTE_MS));
+};
+
+/**
+ * Adjustment for a choice about `minutes` away, or null if the time is kept
+ */
+export const getAwayAdjustment = (choice: AwayChoice, minutes: number): AwayAdjustment | null => {
+  if (choice === 'keep' || minutes <= 0) return null;
+  return { minutes, asBreak: choice === 'break' };
+};
+
+/**
+ * Both adjustments together, for a pomodoro the user was away from twice
+ */
+export const combineAwayAdjustments = (
+  first: AwayAdjustment | null,
+  second: AwayAdjustment | null
+): AwayAdjustment | null => {
+  if (!first || !second) return first || second;
+  return { minutes: first.minutes + second.minutes, asBreak: first.asBreak || second.asBreak };
+};
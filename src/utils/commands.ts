@@ -0,0 +1,75 @@
+/**
+ * Commands for the command palette
+ * Each command is something the user could otherwise do with a click or a
+ * shortcut. The ones run most recently are remembered, and ranked first
+ * when they match what's typed.
+ */
+import { fuzzySearch } from './fuzzySearch';
+
+export interface Command {
+  id: string;          // Stable across renders, used to remember recent commands
+  title: string;
+  section: string;     // Shown next to the title, e.g. "Timer" or "Reports"
+  keywords?: string;   // Other words the command should be found by
+  transient?: boolean; // Built from the query, so never remembered as recent
+  run: () => void;
+}
+
+export const RECENT_COMMANDS_KEY = 'pomoSpaceRecentCommands';
+
+// How many recently run commands are remembered
+const MAX_RECENT_COMMANDS = 8;
+
+/**
+ * Ids of recently run commands, most recent first
+ */
+export const loadRecentCommands = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_COMMANDS_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
+  } catch (e) {
+    console.error('Error reading recent commands:', e);
+    return [];
+  }
+};
+
+/**
+ * Remember that a command was run, returning the updated list
+ */
+export const saveRecentCommand = (commandId: string): string[] => {
+  const recent = [commandId, ...loadRecentCommands().filter(id => id !== commandId)].slice(0, MAX_RECENT_COMMANDS);
+  localStorage.setItem(RECENT_COMMANDS_KEY, JSON.stringify(recent));
+  return recent;
+};
+
+// Text a command is found by
+const getCommandText = (command: Command): string => `${command.title} ${command.keywords || ''}`;
+
+// Whether the query appears as typed in the command, not just scattered through it
+const containsQuery = (command: Command, query: string): boolean => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  return getCommandText(command).toLowerCase().replace(/\s+/g, '').includes(needle);
+};
+
+/**
+ * Commands matching `query`: recently run ones that contain the query first,
+ * most recent first, then the rest from best match to worst, and last the
+ * ones built from the query
+ */
+export const rankCommands = (commands: Command[], query: string, recent: string[]): Command[] => {
+  const matches = fuzzySearch(commands, query, getCommandText).map(match => match.item);
+
+  const recentMatches = recent
+    .map(id => matches.find(command => command.id === id))
+    .filter((command): command is Command =>
+      command !== undefined && !command.transient && containsQuery(command, query)
+    );
+
+  // Commands built from the query always match it, so they go after the real ones
+  const rest = matches.filter(command => !recentMatches.includes(command));
+  return [
+    ...recentMatches,
+    ...rest.filter(command => !command.transient),
+    ...rest.filter(command => command.transient)
+  ];
+};
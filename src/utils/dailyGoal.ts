@@ -0,0 +1,111 @@
+/**
+ * Daily pomodoro goal tracking for PomoSpace
+ * Days start at a user-chosen hour, so a late night session still
+ * counts towards the day it belongs to.
+ */
+
+// Pomodoros completed on a day, with the goal that applied that day
+export interface DailyLogEntry {
+  completed: number;
+  goal: number;
+}
+
+// Keyed by day (YYYY-MM-DD)
+export type DailyLog = Record<string, DailyLogEntry>;
+
+export const DAILY_LOG_KEY = 'pomoSpaceDailyLog';
+
+/**
+ * Day a timestamp belongs to, as YYYY-MM-DD in local time,
+ * with days starting at `dayStartHour` instead of midnight
+ */
+export const getDayKey = (timestamp: number, dayStartHour: number): string => {
+  const date = new Date(timestamp);
+  date.setHours(date.getHours() - dayStartHour);
+
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Local midnight of a day key. `new Date(dayKey)` would read it as UTC,
+ * which is the day before anywhere west of it.
+ */
+export const parseDayKey = (dayKey: string): Date => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Day before the given day key
+ */
+export const getPreviousDayKey = (dayKey: string): string => {
+  const date = parseDayKey(dayKey);
+  date.setDate(date.getDate() - 1);
+
+  return [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    date.getDate().toString().padStart(2, '0')
+  ].join('-');
+};
+
+/**
+ * Read the daily log from localStorage
+ */
+export const loadDailyLog = (): DailyLog => {
+  try {
+    const savedLog = localStorage.getItem(DAILY_LOG_KEY);
+    const parsed = savedLog ? JSON.parse(savedLog) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error('Error loading daily log:', error);
+    return {};
+  }
+};
+
+/**
+ * Count a completed pomodoro towards its day and save the log
+ */
+export const recordDailyPomodoro = (log: DailyLog, completedAt: number, dayStartHour: number, goal: number): DailyLog => {
+  const dayKey = getDayKey(completedAt, dayStartHour);
+  const entry = log[dayKey] || { completed: 0, goal };
+
+  const updatedLog: DailyLog = {
+    ...log,
+    [dayKey]: { completed: entry.completed + 1, goal }
+  };
+
+  try {
+    localStorage.setItem(DAILY_LOG_KEY, JSON.stringify(updatedLog));
+  } catch (error) {
+    console.error('Error saving daily log:', error);
+  }
+
+  return updatedLog;
+};
+
+/**
+ * Whether a day's log reached its goal. A goal of 0 means no goal was set.
+ */
+export const isGoalMet = (entry: DailyLogEntry | undefined): boolean => {
+  return !!entry && entry.goal > 0 && entry.completed >= entry.goal;
+};
+
+/**
+ * Consecutive days with the goal met, ending today. Today only breaks
+ * the streak once it's over, so an unfinished today doesn't reset it.
+ */
+export const getGoalStreak = (log: DailyLog, todayKey: string): number => {
+  let streak = 0;
+  let dayKey = isGoalMet(log[todayKey]) ? todayKey : getPreviousDayKey(todayKey);
+
+  while (isGoalMet(log[dayKey])) {
+    streak++;
+    dayKey = getPreviousDayKey(dayKey);
+  }
+
+  return streak;
+};
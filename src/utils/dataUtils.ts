@@ -3,13 +3,21 @@
  * Handles export and import of user data
  */
 
+import { DAILY_LOG_KEY } from './dailyGoal';
+import { RECENT_COMMANDS_KEY } from './commands';
+import { MISSED_BLOCKS_KEY, SCHEDULE_CHECKED_KEY } from './focusSchedule';
+
 // Keys used in localStorage
-const STORAGE_KEYS = {
+export const STORAGE_KEYS = {
   TIMER_STATE: 'pomoSpaceTimerState',
   SETTINGS: 'pomoSpaceSettings',
   TASKS: 'pomoSpaceTasks',
   TASK_HISTORY: 'pomoSpaceTaskHistory',
-  ACTIVE_TASK: 'pomoSpaceActiveTask'
+  ACTIVE_TASK: 'pomoSpaceActiveTask',
+  DAILY_LOG: DAILY_LOG_KEY,
+  RECENT_COMMANDS: RECENT_COMMANDS_KEY,
+  MISSED_FOCUS_BLOCKS: MISSED_BLOCKS_KEY,
+  SCHEDULE_CHECKED_AT: SCHEDULE_CHECKED_KEY
 };
 
 // Export all user data to a JSON object
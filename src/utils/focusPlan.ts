@@ -0,0 +1,100 @@
+/**
+ * "Focus until" planning for PomoSpace
+ * Lays out the pomodoros and breaks that fit before a wall-clock end time,
+ * following the configured durations and long break interval.
+ */
+import type { TimerSettings, TimerType } from './timerMachine';
+
+// One block of a plan
+export interface FocusBlock {
+  type: TimerType;
+  duration: number;          // Length in seconds
+}
+
+// A plan being run by the timer
+export interface FocusPlan {
+  endsAt: number;            // Unix timestamp the plan was made to finish by
+  blocks: FocusBlock[];
+  index: number;             // Block currently running
+}
+
+// Shorter blocks aren't worth starting
+const MIN_BLOCK_SECONDS = 5 * 60;
+
+/**
+ * Blocks that fit between `startAt` and `endsAt`. Breaks alternate with
+ * pomodoros, a long break every `longBreakInterval` pomodoros counting from
+ * `completedPomodoros`. The last pomodoro is shortened to end on time, and
+ * the plan never ends on a break.
+ */
+export function planFocusBlocks(
+  startAt: number,
+  endsAt: number,
+  settings: TimerSettings,
+  completedPomodoros: number
+): FocusBlock[] {
+  const blocks: FocusBlock[] = [];
+  let time = startAt;
+  let pomodoros = completedPomodoros;
+  let type: keyof TimerSettings['timerDurations'] = 'pomodoro';
+
+  while (time < endsAt) {
+    const remaining = Math.floor((endsAt - time) / 1000);
+    const fullDuration = settings.timerDurations[type] * 60;
+
+    if (type === 'pomodoro') {
+      if (remaining < MIN_BLOCK_SECONDS) break;
+
+      const duration = Math.min(fullDuration, remaining);
+      blocks.push({ type, duration });
+      time += duration * 1000;
+      pomodoros++;
+      type = pomodoros % settings.longBreakInterval === 0 ? 'longBreak' : 'shortBreak';
+    } else {
+      // A break only makes sense if a pomodoro still fits after it
+      if (remaining - fullDuration < MIN_BLOCK_SECONDS) break;
+
+      blocks.push({ type, duration: fullDuration });
+      time += fullDuration * 1000;
+      type = 'pomodoro';
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Next occurrence of a time of day ("HH:MM"), today or tomorrow
+ */
+export const getNextTimeOfDay = (timeOfDay: string, now: number): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(timeOfDay);
+  if (!match) return null;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  const target = new Date(now);
+  target.setHours(hours, minutes, 0, 0);
+
+  if (target.getTime() <= now) {
+    target.setDate(target.getDate() + 1);
+  }
+
+  return target.getTime();
+};
+
+/**
+ * Check the shape of a stored plan
+ */
+export const isFocusPlan = (value: unknown): value is FocusPlan => {
+  if (!value || typeof value !== 'object') return false;
+
+  const plan = value as FocusPlan;
+  return typeof plan.endsAt === 'number' &&
+    typeof plan.index === 'number' &&
+    Array.isArray(plan.blocks) &&
+    plan.index >= 0 &&
+    plan.index < plan.blocks.length &&
+    plan.blocks.every(block => block && typeof block.type === 'string' && typeof block.duration === 'number');
+};
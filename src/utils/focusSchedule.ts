@@ -0,0 +1,156 @@
+/**
+ * Scheduled focus blocks for PomoSpace
+ * A scheduled block recurs weekly, e.g. 10:00–11:40 on weekdays. When one begins
+ * the timer switches to a pomodoro and starts; blocks that passed while the
+ * app was closed are kept as missed so they can be reported.
+ */
+
+export interface ScheduledBlock {
+  id: string;
+  days: number[];         // Days of the week it runs on, 0 is Sunday
+  startTime: string;      // Local time as HH:MM
+  endTime: string;        // Local time as HH:MM, before startTime means it runs past midnight
+  taskId: string | null;  // Task to make active when it starts
+}
+
+// One occurrence of a block, as Unix timestamps
+export interface ScheduledBlockOccurrence {
+  blockId: string;
+  startsAt: number;
+  endsAt: number;
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const MISSED_BLOCKS_KEY = 'pomoSpaceMissedFocusBlocks';
+export const SCHEDULE_CHECKED_KEY = 'pomoSpaceScheduleCheckedAt';
+
+// Blocks missed longer ago than this aren't worth reporting
+const MAX_CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Helper function to turn HH:MM into minutes after midnight
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * A new block on weekdays, for the schedule editor
+ */
+export const createScheduledBlock = (): ScheduledBlock => ({
+  id: `block-${Date.now()}`,
+  days: [1, 2, 3, 4, 5],
+  startTime: '10:00',
+  endTime: '11:40',
+  taskId: null
+});
+
+/**
+ * Occurrences of the schedule's blocks starting after `from`, up to and including `to`
+ */
+export const getBlockOccurrences = (schedule: ScheduledBlock[], from: number, to: number): ScheduledBlockOccurrence[] => {
+  const occurrences: ScheduledBlockOccurrence[] = [];
+  if (schedule.length === 0 || to <= from) return occurrences;
+
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  while (day.getTime() <= to) {
+    schedule.forEach(block => {
+      if (!block.days.includes(day.getDay())) return;
+
+      const start = toMinutes(block.startTime);
+      let end = toMinutes(block.endTime);
+      if (end <= start) end += 24 * 60;
+
+      // setHours keeps these right across daylight saving changes
+      const startsAt = new Date(day).setHours(0, start, 0, 0);
+      const endsAt = new Date(day).setHours(0, end, 0, 0);
+
+      if (startsAt > from && startsAt <= to) {
+        occurrences.push({ blockId: block.id, startsAt, endsAt });
+      }
+    });
+
+    day.setDate(day.getDate() + 1);
+  }
+
+  return occurrences.sort((a, b) => a.startsAt - b.startsAt);
+};
+
+/**
+ * Sort the blocks that began since the schedule was last checked into the one
+ * to start now, if it's still running, and the ones that were missed
+ */
+export const checkFocusSchedule = (
+  schedule: ScheduledBlock[],
+  lastCheckedAt: number,
+  now: number
+): { due: ScheduledBlockOccurrence | null; missed: ScheduledBlockOccurrence[] } => {
+  const occurrences = getBlockOccurrences(schedule, Math.max(lastCheckedAt, now - MAX_CATCH_UP_MS), now);
+
+  const running = occurrences.filter(occurrence => occurrence.endsAt > now);
+  return {
+    due: running.length > 0 ? running[running.length - 1] : null,
+    missed: occurrences.filter(occurrence => occurrence.endsAt <= now)
+  };
+};
+
+/**
+ * Describe an occurrence like "Mon, Oct 19 10:00–11:40"
+ */
+export const formatOccurrence = (occurrence: ScheduledBlockOccurrence): string => {
+  const date = new Date(occurrence.startsAt).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const formatClock = (timestamp: number) => {
+    const time = new Date(timestamp);
+    return `${time.getHours().toString().padStart(2, '0')}:${time.getMinutes().toString().padStart(2, '0')}`;
+  };
+
+  return `${date} ${formatClock(occurrence.startsAt)}–${formatClock(occurrence.endsAt)}`;
+};
+
+/**
+ * Keep only well-formed blocks from stored data
+ */
+export const parseFocusSchedule = (value: unknown): ScheduledBlock[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((block): block is ScheduledBlock =>
+    !!block &&
+    typeof block.id === 'string' &&
+    Array.isArray(block.days) &&
+    typeof block.startTime === 'string' && TIME_PATTERN.test(block.startTime) &&
+    typeof block.endTime === 'string' && TIME_PATTERN.test(block.endTime)
+  ).map(block => ({
+    ...block,
+    days: block.days.filter((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6),
+    taskId: typeof block.taskId === 'string' ? block.taskId : null
+  }));
+};
+
+/**
+ * Missed blocks not yet dismissed, from localStorage
+ */
+export const loadMissedBlocks = (): ScheduledBlockOccurrence[] => {
+  try {
+    const saved = localStorage.getItem(MISSED_BLOCKS_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error loading missed focus blocks:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the missed blocks not yet dismissed
+ */
+export const saveMissedBlocks = (missed: ScheduledBlockOccurrence[]): void => {
+  try {
+    localStorage.setItem(MISSED_BLOCKS_KEY, JSON.stringify(missed));
+  } catch (error) {
+    console.error('Error saving missed focus blocks:', error);
+  }
+};
@@ -0,0 +1,86 @@
+/**
+ * Fuzzy matching for the command palette
+ * A query matches text when its characters appear in the text in order, not
+ * necessarily next to each other ("sbrk" matches "Short break"). Matches
+ * that are contiguous or start words score higher.
+ */
+
+export interface FuzzyMatch<T> {
+  item: T;
+  score: number;
+}
+
+// Whether the character at `index` starts a word
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) return true;
+  const previous = text[index - 1];
+  return previous === ' ' || previous === '-' || previous === ':' || previous === '/';
+};
+
+/**
+ * Score of `query` against `text`, or null when it doesn't match.
+ * Case is ignored; an empty query matches everything with a score of 0.
+ * Every way of placing the query in the text is considered, so "sbrk"
+ * prefers the "b" of "break" over an earlier one in the middle of a word.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (needle.length === 0) return 0;
+
+  // best[j]: highest score with the query so far matched, its last character at j
+  let best: (number | null)[] = [];
+
+  for (let q = 0; q < needle.length; q++) {
+    const next: (number | null)[] = [];
+
+    for (let j = 0; j < haystack.length; j++) {
+      next[j] = null;
+      if (haystack[j] !== needle[q]) continue;
+
+      const own = 1 + (isWordStart(haystack, j) ? 5 : 0);
+      if (q === 0) {
+        next[j] = own;
+        continue;
+      }
+
+      for (let k = 0; k < j; k++) {
+        const previous = best[k];
+        if (previous === null || previous === undefined) continue;
+
+        // Contiguous matches earn a bonus, gaps cost a little so tighter matches win among equals
+        const link = k === j - 1 ? 3 : -Math.min(j - k - 1, 3) * 0.1;
+        const score = previous + own + link;
+        const current = next[j];
+        if (current === null || score > current) {
+          next[j] = score;
+        }
+      }
+    }
+
+    best = next;
+  }
+
+  const scores = best.filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+
+  // Prefer the text starting with the query
+  return Math.max(...scores) + (haystack.startsWith(needle) ? 10 : 0);
+};
+
+/**
+ * Items matching `query`, best first. Items that score the same keep their order.
+ */
+export const fuzzySearch = <T>(items: T[], query: string, getText: (item: T) => string): FuzzyMatch<T>[] => {
+  const matches: FuzzyMatch<T>[] = [];
+
+  items.forEach(item => {
+    const score = fuzzyScore(query, getText(item));
+    if (score !== null) {
+      matches.push({ item, score });
+    }
+  });
+
+  // Array.prototype.sort is stable, so ties keep their original order
+  return matches.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,96 @@
+/**
+ * System idle detection for PomoSpace
+ * Wraps the Idle Detection API, which sees inactivity across the whole
+ * system (and a locked screen) rather than just this page. It needs the
+ * user's permission and is only available in some browsers; useAwayDetection
+ * falls back to watching input on the page when it can't be used.
+ */
+
+export type IdlePermissionState = PermissionState | 'unsupported';
+
+// The parts of the Idle Detection API used here, it isn't in TypeScript's DOM types yet
+interface IdleDetector extends EventTarget {
+  userState: 'active' | 'idle' | null;
+  screenState: 'locked' | 'unlocked' | null;
+  start(options: { threshold: number; signal?: AbortSignal }): Promise<void>;
+}
+
+interface IdleDetectorConstructor {
+  new (): IdleDetector;
+  requestPermission(): Promise<PermissionState>;
+}
+
+// The API refuses thresholds under a minute
+export const MIN_IDLE_THRESHOLD_MS = 60 * 1000;
+
+// Helper function to get the API, if this browser has it
+const getIdleDetector = (): IdleDetectorConstructor | null => {
+  const detector = (window as unknown as { IdleDetector?: IdleDetectorConstructor }).IdleDetector;
+  return detector || null;
+};
+
+/**
+ * Whether this browser has the Idle Detection API
+ */
+export const isIdleDetectionSupported = (): boolean => {
+  return typeof window !== 'undefined' && getIdleDetector() !== null;
+};
+
+/**
+ * Current idle detection permission, or 'unsupported'
+ */
+export const getIdlePermission = async (): Promise<IdlePermissionState> => {
+  if (!isIdleDetectionSupported()) return 'unsupported';
+
+  try {
+    const status = await navigator.permissions.query({ name: 'idle-detection' as PermissionName });
+    return status.state;
+  } catch (error) {
+    console.error('Error checking idle detection permission:', error);
+    return 'prompt';
+  }
+};
+
+/**
+ * Ask for permission to detect idleness. Must be called from a click.
+ */
+export const requestIdlePermission = async (): Promise<IdlePermissionState> => {
+  const IdleDetector = getIdleDetector();
+  if (!IdleDetector) return 'unsupported';
+
+  try {
+    return await IdleDetector.requestPermission();
+  } catch (error) {
+    console.error('Error requesting idle detection permission:', error);
+    return 'denied';
+  }
+};
+
+/**
+ * Watch for the user going idle for `thresholdMs`, or locking the screen.
+ * Resolves to a function that stops watching, or null when detection isn't
+ * available (unsupported, not permitted), in which case nothing is reported.
+ */
+export const watchIdleState = async (
+  thresholdMs: number,
+  onChange: (isIdle: boolean) => void
+): Promise<(() => void) | null> => {
+  const IdleDetector = getIdleDetector();
+  if (!IdleDetector || await getIdlePermission() !== 'granted') return null;
+
+  const controller = new AbortController();
+  const detector = new IdleDetector();
+
+  detector.addEventListener('change', () => {
+    onChange(detector.userState === 'idle' || detector.screenState === 'locked');
+  });
+
+  try {
+    await detector.start({ threshold: Math.max(MIN_IDLE_THRESHOLD_MS, thresholdMs), signal: controller.signal });
+  } catch (error) {
+    console.error('Error starting idle detection:', error);
+    return null;
+  }
+
+  return () => controller.abort();
+};
@@ -0,0 +1,124 @@
+/**
+ * Keyboard shortcuts for PomoSpace
+ * Each action is bound to a single key (as reported by KeyboardEvent.key),
+ * and the bindings are saved with the rest of the settings.
+ */
+
+export type ShortcutAction =
+  | 'toggleTimer'
+  | 'resetTimer'
+  | 'pomodoroMode'
+  | 'shortBreakMode'
+  | 'longBreakMode'
+  | 'newTask'
+  | 'nextTask'
+  | 'previousTask'
+  | 'showShortcuts';
+
+export type Keymap = Record<ShortcutAction, string>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  toggleTimer: ' ',
+  resetTimer: 'r',
+  pomodoroMode: '1',
+  shortBreakMode: '2',
+  longBreakMode: '3',
+  newTask: 'n',
+  nextTask: 'j',
+  previousTask: 'k',
+  showShortcuts: '?'
+};
+
+// In the order they're listed in settings and the cheat sheet
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  toggleTimer: 'Start / pause',
+  resetTimer: 'Reset timer',
+  pomodoroMode: 'Pomodoro mode',
+  shortBreakMode: 'Short break mode',
+  longBreakMode: 'Long break mode',
+  newTask: 'New task',
+  nextTask: 'Next task',
+  previousTask: 'Previous task',
+  showShortcuts: 'Show shortcuts'
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUT_LABELS) as ShortcutAction[];
+
+// Keys that can't be bound, they already mean something everywhere
+const RESERVED_KEYS = ['Escape', 'Tab', 'Enter', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+/**
+ * Letters are matched regardless of case, so Shift doesn't get in the way
+ */
+const normalizeKey = (key: string): string => {
+  return key.length === 1 ? key.toLowerCase() : key;
+};
+
+/**
+ * Readable name for a key, as shown in the UI
+ */
+export const formatKey = (key: string): string => {
+  if (key === ' ') return 'Space';
+  if (key.startsWith('Arrow')) return key.slice('Arrow'.length);
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+/**
+ * Whether a key can be used for a shortcut
+ */
+export const isBindableKey = (key: string): boolean => {
+  return !RESERVED_KEYS.includes(key);
+};
+
+/**
+ * Action bound to a pressed key, if any
+ */
+export const getShortcutAction = (keymap: Keymap, key: string): ShortcutAction | null => {
+  const pressed = normalizeKey(key);
+  return SHORTCUT_ACTIONS.find(action => normalizeKey(keymap[action]) === pressed) || null;
+};
+
+/**
+ * Bind `key` to `action`. An action already using the key takes over the
+ * old binding instead, so no two actions ever share a key.
+ */
+export const bindShortcut = (keymap: Keymap, action: ShortcutAction, key: string): Keymap => {
+  const current = getShortcutAction(keymap, key);
+  const updated = { ...keymap, [action]: normalizeKey(key) };
+
+  if (current && current !== action) {
+    updated[current] = keymap[action];
+  }
+
+  return updated;
+};
+
+/**
+ * Whether a key press is meant for a text field rather than a shortcut
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+
+  return target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT';
+};
+
+/**
+ * Keymap from stored data, with defaults for anything missing or malformed
+ */
+export const parseKeymap = (value: unknown): Keymap => {
+  const keymap = { ...DEFAULT_KEYMAP };
+  if (!value || typeof value !== 'object') return keymap;
+
+  const stored = value as Record<string, unknown>;
+  SHORTCUT_ACTIONS.forEach(action => {
+    const key = stored[action];
+    if (typeof key === 'string' && key.length > 0 && isBindableKey(key)) {
+      keymap[action] = key;
+    }
+  });
+
+  return keymap;
+};
@@ -0,0 +1,164 @@
+/**
+ * Desktop notifications for PomoSpace
+ * Notifications with buttons have to be shown by the service worker, which
+ * posts the clicked button back to the page. Where that isn't possible a
+ * plain notification is shown, and the page falls back to an in-app banner
+ * when notifications are denied altogether. Notifications can also be
+ * scheduled with the service worker ahead of time, for when the tab is closed.
+ */
+import type { TimerType } from './timerMachine';
+import { postToServiceWorker, registerServiceWorker } from './serviceWorker';
+
+// Buttons offered on a phase notification
+export type NotificationAction = 'start' | 'skip' | 'postpone';
+
+// Message posted by the service worker when a button is clicked
+interface NotificationActionMessage {
+  type: 'notificationAction';
+  action: NotificationAction;
+}
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export interface PhaseNotification {
+  title: string;
+  body: string;
+  actions: { action: NotificationAction; title: string }[];
+}
+
+const PHASE_NAMES: Record<TimerType, string> = {
+  pomodoro: 'pomodoro',
+  shortBreak: 'short break',
+  longBreak: 'long break',
+  stopwatch: 'stopwatch'
+};
+
+// Replaced by the next phase notification rather than piling up
+const NOTIFICATION_TAG = 'pomoSpacePhase';
+
+/**
+ * Whether this browser shows notifications at all
+ */
+export const isNotificationSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'Notification' in window;
+};
+
+/**
+ * Current notification permission, or 'unsupported'
+ */
+export const getNotificationPermission = (): NotificationPermissionState => {
+  return isNotificationSupported() ? Notification.permission : 'unsupported';
+};
+
+/**
+ * Ask for permission to notify. Resolves to the permission the user settled on.
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+  if (!isNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+
+  try {
+    const permission = await Notification.requestPermission();
+    if (permission === 'granted') {
+      await registerServiceWorker();
+    }
+    return permission;
+  } catch (error) {
+    console.error('Error requesting notification permission:', error);
+    return Notification.permission;
+  }
+};
+
+/**
+ * What to say when `completedType` ends and `nextType` is up, and the buttons to offer
+ */
+export const getPhaseNotification = (
+  completedType: TimerType,
+  nextType: TimerType,
+  taskName: string | null,
+  postponeMinutes: number
+): PhaseNotification => {
+  const isBreakNext = nextType !== 'pomodoro';
+  const finished = completedType === 'pomodoro' && taskName ? `Finished a pomodoro on ${taskName}. ` : '';
+
+  return {
+    title: completedType === 'pomodoro' ? 'Pomodoro complete' : 'Break over',
+    body: `${finished}Next up: ${PHASE_NAMES[nextType]}.`,
+    actions: isBreakNext
+      ? [
+        { action: 'start', title: 'Start break' },
+        { action: 'skip', title: 'Skip break' },
+        { action: 'postpone', title: `Start in ${postponeMinutes} min` }
+      ]
+      : [
+        { action: 'start', title: 'Start pomodoro' },
+        { action: 'postpone', title: `Start in ${postponeMinutes} min` }
+      ]
+  };
+};
+
+/**
+ * Show a phase notification, with buttons when the service worker is available.
+ * Resolves to false when it couldn't be shown.
+ */
+export const showPhaseNotification = async ({ title, body, actions }: PhaseNotification): Promise<boolean> => {
+  if (getNotificationPermission() !== 'granted') return false;
+
+  const options = { body, tag: NOTIFICATION_TAG, icon: '/icons/icon-192.png' };
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+
+    if (registration) {
+      // `actions` isn't in the DOM typings yet, it's only supported for worker notifications
+      await registration.showNotification(title, { ...options, actions } as NotificationOptions);
+    } else {
+      new Notification(title, options);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error showing notification:', error);
+    return false;
+  }
+};
+
+/**
+ * Have the service worker show a phase notification at `at`, so it's shown
+ * even if every PomoSpace tab is closed by then
+ */
+export const schedulePhaseNotification = async (at: number, notification: PhaseNotification): Promise<void> => {
+  if (getNotificationPermission() !== 'granted') return;
+
+  try {
+    await postToServiceWorker({ type: 'schedulePhaseNotification', at, ...notification });
+  } catch (error) {
+    console.error('Error scheduling notification:', error);
+  }
+};
+
+/**
+ * Drop the notification scheduled with the service worker, if any
+ */
+export const cancelPhaseNotification = async (): Promise<void> => {
+  try {
+    await postToServiceWorker({ type: 'cancelPhaseNotification' });
+  } catch (error) {
+    console.error('Error cancelling notification:', error);
+  }
+};
+
+/**
+ * Listen for notification buttons clicked while this page is open
+ */
+export const subscribeNotificationActions = (onAction: (action: NotificationAction) => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+
+  const handleMessage = (event: MessageEvent<NotificationActionMessage>) => {
+    if (event.data && event.data.type === 'notificationAction') {
+      onAction(event.data.action);
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,85 @@
+/**
+ * URLs for PomoSpace pages
+ *
+ *   /timer                         the timer and task list (also /)
+ *   /timer?start=<type>&task=<id>  action link: make a task active and start a timer
+ *   /reports/<tab>?range=<range>   a reports tab, e.g. /reports/daily?range=month
+ *   /settings                      the settings dialog
+ *
+ * Any other path shows the timer. vercel.json rewrites every path to
+ * index.html so they can all be loaded directly.
+ */
+import type { TimerType } from './timerMachine';
+
+export const REPORT_TABS = ['overview', 'daily', 'categories', 'history', 'interruptions'] as const;
+export type ReportsTab = typeof REPORT_TABS[number];
+
+export const REPORT_RANGES = ['week', 'month', 'year'] as const;
+export type ReportsRange = typeof REPORT_RANGES[number];
+
+const TIMER_TYPES: TimerType[] = ['pomodoro', 'shortBreak', 'longBreak', 'stopwatch'];
+
+export type AppRoute =
+  | { page: 'timer'; start?: TimerType; taskId?: string }
+  | { page: 'reports'; tab: ReportsTab; range: ReportsRange }
+  | { page: 'settings' };
+
+// Routes for a page rather than the settings dialog shown over one
+export type PageRoute = Exclude<AppRoute, { page: 'settings' }>;
+export type ReportsRoute = Extract<AppRoute, { page: 'reports' }>;
+
+export const DEFAULT_REPORTS_ROUTE: ReportsRoute = { page: 'reports', tab: 'overview', range: 'week' };
+
+// Helper function to check a URL value against the values allowed for it
+const isOneOf = <T extends string>(values: readonly T[], value: string | null | undefined): value is T => {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+};
+
+/**
+ * Route for a URL path and query string
+ */
+export const parseRoute = (pathname: string, search: string): AppRoute => {
+  const segments = pathname.split('/').filter(segment => segment.length > 0);
+  const params = new URLSearchParams(search);
+
+  if (segments[0] === 'reports') {
+    const range = params.get('range');
+    return {
+      page: 'reports',
+      tab: isOneOf(REPORT_TABS, segments[1]) ? segments[1] : 'overview',
+      range: isOneOf(REPORT_RANGES, range) ? range : 'week'
+    };
+  }
+
+  if (segments[0] === 'settings') {
+    return { page: 'settings' };
+  }
+
+  const start = params.get('start');
+  const taskId = params.get('task');
+  return {
+    page: 'timer',
+    ...(isOneOf(TIMER_TYPES, start) ? { start } : {}),
+    ...(taskId ? { taskId } : {})
+  };
+};
+
+/**
+ * URL path and query string for a route, the reverse of parseRoute
+ */
+export const getRoutePath = (route: AppRoute): string => {
+  if (route.page === 'reports') {
+    return route.range === 'week' ? `/reports/${route.tab}` : `/reports/${route.tab}?range=${route.range}`;
+  }
+
+  if (route.page === 'settings') {
+    return '/settings';
+  }
+
+  const params = new URLSearchParams();
+  if (route.start) params.set('start', route.start);
+  if (route.taskId) params.set('task', route.taskId);
+
+  const query = params.toString();
+  return query ? `/timer?${query}` : '/timer';
+};
@@ -0,0 +1,162 @@
+/**
+ * Settings as the backend stores them
+ * The server keeps one flat row per user (the Prisma Settings model) while
+ * the app nests the durations and sounds. These convert between the two,
+ * field by field, so nothing is dropped on the way in either direction.
+ *
+ * To merge rather than overwrite, the last server settings seen on this
+ * device are kept as the common base of the two sides.
+ */
+import { Settings, validateSettings } from './settingsSchema';
+import type { TimerPreset } from './timerPresets';
+import type { ScheduledBlock } from './focusSchedule';
+import type { Keymap } from './keymap';
+
+export const SETTINGS_SYNCED_KEY = 'pomoSpaceSettingsSynced';
+
+// The backend Settings model, without the row's own bookkeeping fields
+export interface ServerSettings {
+  pomodoroMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakInterval: number;
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
+  flowMode: boolean;
+  presets: TimerPreset[];
+  activePresetId: string | null;
+  dailyGoal: number;
+  dayStartHour: number;
+  pauseTimeoutMinutes: number;
+  logAbandonedMinutes: boolean;
+  awayThresholdMinutes: number;
+  focusSchedule: ScheduledBlock[];
+  notifications: boolean;
+  keymap: Keymap;
+  darkMode: boolean;
+  alarmSound: string;
+  alarmVolume: number;
+  alarmRepeat: number;
+  tickingSound: string;
+  tickingVolume: number;
+}
+
+/**
+ * Flatten the app's settings for the server
+ */
+export const toServerSettings = (settings: Settings): ServerSettings => ({
+  pomodoroMinutes: settings.timerDurations.pomodoro,
+  shortBreakMinutes: settings.timerDurations.shortBreak,
+  longBreakMinutes: settings.timerDurations.longBreak,
+  longBreakInterval: settings.longBreakInterval,
+  autoStartBreaks: settings.autoStartBreaks,
+  autoStartPomodoros: settings.autoStartPomodoros,
+  flowMode: settings.flowMode,
+  presets: settings.presets,
+  activePresetId: settings.activePresetId,
+  dailyGoal: settings.dailyGoal,
+  dayStartHour: settings.dayStartHour,
+  pauseTimeoutMinutes: settings.pauseTimeoutMinutes,
+  logAbandonedMinutes: settings.logAbandonedMinutes,
+  awayThresholdMinutes: settings.awayThresholdMinutes,
+  focusSchedule: settings.focusSchedule,
+  notifications: settings.notifications,
+  keymap: settings.keymap,
+  darkMode: settings.darkMode,
+  alarmSound: settings.sound.alarmSound,
+  alarmVolume: settings.sound.alarmVolume,
+  alarmRepeat: settings.sound.alarmRepeat,
+  tickingSound: settings.sound.tickingSound,
+  tickingVolume: settings.sound.tickingVolume
+});
+
+/**
+ * Build the app's settings from the server's. Fields the server doesn't
+ * send keep their value from `current`, and every value is validated.
+ */
+export const fromServerSettings = (server: Partial<ServerSettings>, current: Settings): Settings => {
+  const local = toServerSettings(current);
+
+  // The server also sends the row's id, user and timestamps, which are left out
+  const sent = Object.fromEntries(
+    Object.entries(server).filter(([field, value]) => field in local && value !== undefined)
+  );
+  const merged: ServerSettings = { ...local, ...sent };
+
+  return validateSettings({
+    timerDurations: {
+      pomodoro: merged.pomodoroMinutes,
+      shortBreak: merged.shortBreakMinutes,
+      longBreak: merged.longBreakMinutes
+    },
+    longBreakInterval: merged.longBreakInterval,
+    autoStartBreaks: merged.autoStartBreaks,
+    autoStartPomodoros: merged.autoStartPomodoros,
+    flowMode: merged.flowMode,
+    presets: merged.presets,
+    activePresetId: merged.activePresetId,
+    dailyGoal: merged.dailyGoal,
+    dayStartHour: merged.dayStartHour,
+    pauseTimeoutMinutes: merged.pauseTimeoutMinutes,
+    logAbandonedMinutes: merged.logAbandonedMinutes,
+    awayThresholdMinutes: merged.awayThresholdMinutes,
+    focusSchedule: merged.focusSchedule,
+    notifications: merged.notifications,
+    keymap: merged.keymap,
+    darkMode: merged.darkMode,
+    sound: {
+      alarmSound: merged.alarmSound,
+      alarmVolume: merged.alarmVolume,
+      alarmRepeat: merged.alarmRepeat,
+      tickingSound: merged.tickingSound,
+      tickingVolume: merged.tickingVolume
+    }
+  });
+};
+
+/**
+ * Merge the server's settings into the local ones. Fields changed on this
+ * device since `base`, the last server settings seen here, keep the local
+ * value; everything else takes the server's. With no base, as on a device
+ * syncing for the first time, the server's settings win.
+ */
+export const mergeServerSettings = (
+  server: Partial<ServerSettings>,
+  local: Settings,
+  base: Partial<ServerSettings> | null
+): Settings => {
+  if (!base) return fromServerSettings(server, local);
+
+  const localChanges = Object.fromEntries(
+    Object.entries(toServerSettings(local)).filter(([field, value]) =>
+      JSON.stringify(value) !== JSON.stringify(base[field as keyof ServerSettings])
+    )
+  );
+
+  return fromServerSettings({ ...server, ...localChanges }, local);
+};
+
+/**
+ * The last server settings seen on this device, or null if it never synced
+ */
+export const loadSyncedSettings = (): Partial<ServerSettings> | null => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_SYNCED_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Error reading the last synced settings:', error);
+    return null;
+  }
+};
+
+/**
+ * Remember the server's settings as the base for the next merge
+ */
+export const saveSyncedSettings = (serialized: string): void => {
+  try {
+    localStorage.setItem(SETTINGS_SYNCED_KEY, serialized);
+  } catch (error) {
+    console.error('Error saving the last synced settings:', error);
+  }
+};
@@ -0,0 +1,35 @@
+/**
+ * Service worker registration for PomoSpace
+ * The worker (public/sw.js) caches the app for offline use and handles
+ * notifications, including ones due after the tab is closed.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Register the service worker, or resolve to null where it can't be
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+    return null;
+  }
+};
+
+/**
+ * Send a message to the active service worker, once there is one.
+ * Resolves to false if this page has no service worker.
+ */
+export const postToServiceWorker = async (message: unknown): Promise<boolean> => {
+  if (!('serviceWorker' in navigator)) return false;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration || !registration.active) return false;
+
+  registration.active.postMessage(message);
+  return true;
+};
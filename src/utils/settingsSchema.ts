@@ -0,0 +1,242 @@
+/**
+ * Settings schema for PomoSpace
+ * The one place that knows what the settings look like: their types, their
+ * defaults, the ranges numbers must fall in, and how settings stored by
+ * older versions of the app are brought up to date.
+ */
+import { DEFAULT_KEYMAP, Keymap, parseKeymap } from './keymap';
+import { TimerPreset, parsePresets } from './timerPresets';
+import { ScheduledBlock, parseFocusSchedule } from './focusSchedule';
+import { SOUND_PATHS } from './soundUtils';
+
+export interface SoundSettings {
+  alarmSound: string;
+  alarmVolume: number;
+  alarmRepeat: number;
+  tickingSound: string;
+  tickingVolume: number;
+}
+
+export interface Settings {
+  timerDurations: {
+    pomodoro: number;
+    shortBreak: number;
+    longBreak: number;
+  };
+  longBreakInterval: number;
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
+  flowMode: boolean;
+  presets: TimerPreset[];       // User-defined presets, built-ins live in timerPresets
+  activePresetId: string | null;
+  dailyGoal: number;            // Pomodoros per day, 0 disables the goal
+  dayStartHour: number;         // Hour (0-23) at which a new day starts
+  pauseTimeoutMinutes: number;  // Abandon a pomodoro paused this long, 0 disables it
+  logAbandonedMinutes: boolean; // Keep the minutes focused before an abandoned pomodoro
+  awayThresholdMinutes: number; // Ask about time away from a running pomodoro after this long, 0 never asks
+  focusSchedule: ScheduledBlock[]; // Weekly focus blocks that start a pomodoro on their own
+  notifications: boolean;       // Desktop notifications when a phase ends
+  keymap: Keymap;               // Keyboard shortcut bindings
+  darkMode: boolean;
+  sound: SoundSettings;
+}
+
+export const SETTINGS_KEY = 'pomoSpaceSettings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  timerDurations: {
+    pomodoro: 25,
+    shortBreak: 5,
+    longBreak: 15
+  },
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartPomodoros: false,
+  flowMode: false,
+  presets: [],
+  activePresetId: 'classic',
+  dailyGoal: 8,
+  dayStartHour: 0,
+  pauseTimeoutMinutes: 30,
+  logAbandonedMinutes: true,
+  awayThresholdMinutes: 10,
+  focusSchedule: [],
+  notifications: false,
+  keymap: DEFAULT_KEYMAP,
+  darkMode: true,
+  sound: {
+    alarmSound: 'kitchen',
+    alarmVolume: 80,
+    alarmRepeat: 1,
+    tickingSound: 'none',
+    tickingVolume: 50
+  }
+};
+
+// Allowed range of each number setting, also used by the settings dialog's inputs
+// and to check presets. Pomodoros go up to 120 minutes so the 90 minute
+// Ultradian preset fits.
+export const SETTINGS_RANGES = {
+  pomodoro: { min: 1, max: 120 },
+  shortBreak: { min: 1, max: 30 },
+  longBreak: { min: 1, max: 60 },
+  longBreakInterval: { min: 1, max: 10 },
+  dailyGoal: { min: 0, max: 24 },
+  dayStartHour: { min: 0, max: 23 },
+  pauseTimeoutMinutes: { min: 0, max: 240 },
+  awayThresholdMinutes: { min: 0, max: 120 },
+  alarmVolume: { min: 0, max: 100 },
+  alarmRepeat: { min: 1, max: 10 },
+  tickingVolume: { min: 0, max: 100 }
+};
+
+export type NumberSetting = keyof typeof SETTINGS_RANGES;
+
+/**
+ * Check a value against a number setting's range
+ */
+export const isInRange = (setting: NumberSetting, value: unknown): value is number => {
+  const { min, max } = SETTINGS_RANGES[setting];
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+// Helper function to check a preset's numbers like the settings it would set
+const isPresetInRange = (preset: TimerPreset): boolean =>
+  isInRange('pomodoro', preset.timerDurations.pomodoro) &&
+  isInRange('shortBreak', preset.timerDurations.shortBreak) &&
+  isInRange('longBreak', preset.timerDurations.longBreak) &&
+  isInRange('longBreakInterval', preset.longBreakInterval);
+
+// Settings as stored, before they've been migrated and validated
+type StoredSettings = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Upgrades for settings stored by older versions, in order: the one at
+ * index N takes settings from schema version N to N + 1. Add new ones at
+ * the end and never change one that has shipped.
+ */
+const MIGRATIONS: ((stored: StoredSettings) => StoredSettings)[] = [
+  // 0 → 1: settings from before the schema version. The alarm defaulted to
+  // 'kitty', which was never one of the sounds, and a lastUpdated timestamp
+  // was kept to force the old timer to reset.
+  stored => {
+    const upgraded = { ...stored };
+    delete upgraded.lastUpdated;
+
+    if (isObject(upgraded.sound) && upgraded.sound.alarmSound === 'kitty') {
+      upgraded.sound = { ...upgraded.sound, alarmSound: 'kitchen' };
+    }
+    return upgraded;
+  }
+];
+
+export const SETTINGS_SCHEMA_VERSION = MIGRATIONS.length;
+
+// Helper function to get the schema version settings were stored with
+const getStoredVersion = (stored: StoredSettings): number => {
+  const version = stored.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 0;
+};
+
+/**
+ * Run the migrations stored settings haven't had yet
+ */
+export const migrateSettings = (stored: StoredSettings): StoredSettings => {
+  const version = getStoredVersion(stored);
+
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    console.warn(`Settings were saved by a newer version (schema ${version}), reading what this version knows`);
+    return stored;
+  }
+
+  return MIGRATIONS.slice(version).reduce((settings, migrate, index) => {
+    console.log(`Migrating settings to schema version ${version + index + 1}`);
+    return { ...migrate(settings), schemaVersion: version + index + 1 };
+  }, stored);
+};
+
+/**
+ * Build complete settings from stored data, using the default for anything
+ * missing, of the wrong type or out of range
+ */
+export const validateSettings = (value: unknown): Settings => {
+  const stored: StoredSettings = isObject(value) ? value : {};
+  const durations: StoredSettings = isObject(stored.timerDurations) ? stored.timerDurations : {};
+  const sound: StoredSettings = isObject(stored.sound) ? stored.sound : {};
+  const defaults = DEFAULT_SETTINGS;
+
+  const readNumber = (setting: NumberSetting, raw: unknown, fallback: number) => isInRange(setting, raw) ? raw : fallback;
+  const readBoolean = (raw: unknown, fallback: boolean) => typeof raw === 'boolean' ? raw : fallback;
+  const readSound = (raw: unknown, sounds: object, fallback: string) => typeof raw === 'string' && raw in sounds ? raw : fallback;
+
+  return {
+    timerDurations: {
+      pomodoro: readNumber('pomodoro', durations.pomodoro, defaults.timerDurations.pomodoro),
+      shortBreak: readNumber('shortBreak', durations.shortBreak, defaults.timerDurations.shortBreak),
+      longBreak: readNumber('longBreak', durations.longBreak, defaults.timerDurations.longBreak)
+    },
+    longBreakInterval: readNumber('longBreakInterval', stored.longBreakInterval, defaults.longBreakInterval),
+    autoStartBreaks: readBoolean(stored.autoStartBreaks, defaults.autoStartBreaks),
+    autoStartPomodoros: readBoolean(stored.autoStartPomodoros, defaults.autoStartPomodoros),
+    flowMode: readBoolean(stored.flowMode, defaults.flowMode),
+    presets: parsePresets(stored.presets).filter(isPresetInRange),
+    activePresetId: typeof stored.activePresetId === 'string' || stored.activePresetId === null
+      ? stored.activePresetId
+      : defaults.activePresetId,
+    dailyGoal: readNumber('dailyGoal', stored.dailyGoal, defaults.dailyGoal),
+    dayStartHour: readNumber('dayStartHour', stored.dayStartHour, defaults.dayStartHour),
+    pauseTimeoutMinutes: readNumber('pauseTimeoutMinutes', stored.pauseTimeoutMinutes, defaults.pauseTimeoutMinutes),
+    logAbandonedMinutes: readBoolean(stored.logAbandonedMinutes, defaults.logAbandonedMinutes),
+    awayThresholdMinutes: readNumber('awayThresholdMinutes', stored.awayThresholdMinutes, defaults.awayThresholdMinutes),
+    focusSchedule: parseFocusSchedule(stored.focusSchedule),
+    notifications: readBoolean(stored.notifications, defaults.notifications),
+    keymap: parseKeymap(stored.keymap),
+    darkMode: readBoolean(stored.darkMode, defaults.darkMode),
+    sound: {
+      alarmSound: readSound(sound.alarmSound, SOUND_PATHS.alarm, defaults.sound.alarmSound),
+      alarmVolume: readNumber('alarmVolume', sound.alarmVolume, defaults.sound.alarmVolume),
+      alarmRepeat: readNumber('alarmRepeat', sound.alarmRepeat, defaults.sound.alarmRepeat),
+      tickingSound: readSound(sound.tickingSound, SOUND_PATHS.ticking, defaults.sound.tickingSound),
+      tickingVolume: readNumber('tickingVolume', sound.tickingVolume, defaults.sound.tickingVolume)
+    }
+  };
+};
+
+/**
+ * Save settings to localStorage, stamped with the current schema version
+ */
+export const saveSettings = (settings: Settings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, schemaVersion: SETTINGS_SCHEMA_VERSION }));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
+
+/**
+ * Load settings from localStorage, upgrading ones saved by an older version
+ */
+export const loadSettings = (): Settings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+
+    const stored = JSON.parse(saved);
+    if (!isObject(stored)) {
+      console.warn('Stored settings are not an object, using defaults');
+      return DEFAULT_SETTINGS;
+    }
+
+    const settings = validateSettings(migrateSettings(stored));
+    if (getStoredVersion(stored) < SETTINGS_SCHEMA_VERSION) {
+      saveSettings(settings);
+    }
+    return settings;
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
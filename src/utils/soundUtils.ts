@@ -1,3 +1,13 @@
+// Declare the SoundPlayer type for TypeScript
+declare global {
+  interface Window {
+    SoundPlayer: {
+      playSound: (soundPath: string, volume?: number, loop?: boolean) => HTMLAudioElement;
+      playAlarm: (soundPath: string, volume?: number, repeatCount?: number) => { stop: () => void };
+    };
+  }
+}
+
 // Sound file mappings
 export const SOUND_PATHS = {
   ticking: {
@@ -85,4 +95,15 @@ export const playWithRepeat = (
       reject(error);
     });
   });
-}; 
\ No newline at end of file
+}; 
+// Play the alarm chosen in settings, through the SoundPlayer from public/sounds
+export const playAlarmSound = (sound: { alarmSound: string; alarmVolume: number; alarmRepeat: number }) => {
+  if (window.SoundPlayer) {
+    const alarmPath = `/sounds/alarm-${sound.alarmSound}.mp3`;
+    const volume = sound.alarmVolume / 100;
+    const repeats = sound.alarmRepeat || 1;
+    
+    console.log(`Playing alarm sound: ${alarmPath} (volume: ${volume}, repeats: ${repeats})`);
+    window.SoundPlayer.playAlarm(alarmPath, volume, repeats);
+  }
+};
@@ -0,0 +1,232 @@
+/**
+ * Boot checks for PomoSpace's stored data
+ * Before the app renders, every value in STORAGE_KEYS is checked. One that
+ * can't be used is moved aside into a recovery slot rather than deleted, so
+ * the app starts cleanly and the user decides what happens to it.
+ */
+import { STORAGE_KEYS } from './dataUtils';
+import { validateSettings } from './settingsSchema';
+
+export const RECOVERY_KEY = 'pomoSpaceRecovery';
+
+// A stored value set aside at boot
+export interface QuarantinedValue {
+  key: string;
+  value: string;         // The stored text, exactly as it was
+  reason: string;
+  quarantinedAt: number;
+}
+
+interface StorageCheck {
+  label: string;
+  // Why the parsed value can't be used, or null if it's fine
+  validate: (value: unknown) => string | null;
+  // The usable part of a bad value, if any can be kept
+  salvage?: (value: unknown) => unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTask = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.text === 'string';
+
+const isHistoryEntry = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.date === 'string' &&
+  typeof value.taskName === 'string' &&
+  typeof value.minutes === 'number';
+
+const isDailyLogEntry = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.completed === 'number' &&
+  typeof value.goal === 'number';
+
+const isMissedBlock = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.blockId === 'string' &&
+  typeof value.startsAt === 'number' &&
+  typeof value.endsAt === 'number';
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+
+// Helper function to describe the entries of a list that fail a check
+const checkEntries = (value: unknown, isValid: (entry: unknown) => boolean, noun: string): string | null => {
+  if (!Array.isArray(value)) return `Not a list of ${noun}`;
+
+  const badEntries = value.filter(entry => !isValid(entry)).length;
+  return badEntries > 0 ? `${badEntries} of ${value.length} ${noun} can't be read` : null;
+};
+
+const STORAGE_CHECKS: Record<string, StorageCheck> = {
+  [STORAGE_KEYS.SETTINGS]: {
+    label: 'Settings',
+    validate: value => isObject(value) ? null : 'Not a settings object',
+    salvage: value => isObject(value) ? validateSettings(value) : undefined
+  },
+  [STORAGE_KEYS.TIMER_STATE]: {
+    label: 'Timer',
+    validate: value => isObject(value) ? null : 'Not a timer state'
+  },
+  [STORAGE_KEYS.TASKS]: {
+    label: 'Tasks',
+    validate: value => checkEntries(value, isTask, 'tasks'),
+    salvage: value => Array.isArray(value) ? value.filter(isTask) : undefined
+  },
+  [STORAGE_KEYS.TASK_HISTORY]: {
+    label: 'Task history',
+    validate: value => checkEntries(value, isHistoryEntry, 'history entries'),
+    salvage: value => Array.isArray(value) ? value.filter(isHistoryEntry) : undefined
+  },
+  [STORAGE_KEYS.ACTIVE_TASK]: {
+    label: 'Active task',
+    validate: value => value === null || typeof value === 'string' ? null : 'Not a task id'
+  },
+  [STORAGE_KEYS.DAILY_LOG]: {
+    label: 'Daily goal history',
+    validate: value => isObject(value) ? checkEntries(Object.values(value), isDailyLogEntry, 'days') : 'Not a daily log',
+    salvage: value => isObject(value)
+      ? Object.fromEntries(Object.entries(value).filter(([, entry]) => isDailyLogEntry(entry)))
+      : undefined
+  },
+  [STORAGE_KEYS.RECENT_COMMANDS]: {
+    label: 'Recent commands',
+    validate: value => checkEntries(value, isString, 'commands'),
+    salvage: value => Array.isArray(value) ? value.filter(isString) : undefined
+  },
+  [STORAGE_KEYS.MISSED_FOCUS_BLOCKS]: {
+    label: 'Missed focus blocks',
+    validate: value => checkEntries(value, isMissedBlock, 'focus blocks'),
+    salvage: value => Array.isArray(value) ? value.filter(isMissedBlock) : undefined
+  },
+  [STORAGE_KEYS.SCHEDULE_CHECKED_AT]: {
+    label: 'Focus schedule',
+    validate: value => typeof value === 'number' && Number.isFinite(value) ? null : 'Not a time'
+  }
+};
+
+// Helper function to parse a stored value, or undefined if it isn't JSON
+const parseStored = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Name of a stored value as shown to the user
+ */
+export const getStorageLabel = (key: string): string => STORAGE_CHECKS[key]?.label || key;
+
+/**
+ * Values set aside and not yet dealt with
+ */
+export const loadQuarantine = (): QuarantinedValue[] => {
+  try {
+    const saved = localStorage.getItem(RECOVERY_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error reading the recovery slot:', error);
+    return [];
+  }
+};
+
+// Helper function to save what's left in the recovery slot
+const saveQuarantine = (quarantine: QuarantinedValue[]) => {
+  if (quarantine.length === 0) {
+    localStorage.removeItem(RECOVERY_KEY);
+  } else {
+    localStorage.setItem(RECOVERY_KEY, JSON.stringify(quarantine));
+  }
+};
+
+/**
+ * Check every stored value, moving the unusable ones into the recovery slot.
+ * Returns everything in the slot, including values set aside on earlier boots.
+ */
+export const runBootChecks = (): QuarantinedValue[] => {
+  const quarantine = loadQuarantine();
+
+  Object.values(STORAGE_KEYS).forEach(key => {
+    try {
+      const value = localStorage.getItem(key);
+      if (value === null) return;
+
+      const parsed = parseStored(value);
+      const reason = parsed === undefined ? 'Not valid JSON' : STORAGE_CHECKS[key].validate(parsed);
+      if (!reason) return;
+
+      console.warn(`Setting aside stored ${key}: ${reason}`);
+      quarantine.push({ key, value, reason, quarantinedAt: Date.now() });
+      saveQuarantine(quarantine);
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.error(`Error checking stored ${key}:`, error);
+    }
+  });
+
+  return quarantine;
+};
+
+/**
+ * The part of a set-aside value that can be put back, or undefined if none can
+ */
+export const getSalvageable = (item: QuarantinedValue): unknown => {
+  const check = STORAGE_CHECKS[item.key];
+  const parsed = parseStored(item.value);
+  if (!check || !check.salvage || parsed === undefined) return undefined;
+
+  return check.salvage(parsed);
+};
+
+/**
+ * Put back the readable part of a set-aside value and take it out of the slot
+ */
+export const restoreQuarantined = (item: QuarantinedValue): QuarantinedValue[] => {
+  const salvaged = getSalvageable(item);
+  if (salvaged !== undefined) {
+    localStorage.setItem(item.key, JSON.stringify(salvaged));
+    console.log(`Restored the readable part of ${item.key}`);
+  }
+
+  return discardQuarantined(item);
+};
+
+/**
+ * Drop a set-aside value, the app goes on with the default for it
+ */
+export const discardQuarantined = (item: QuarantinedValue): QuarantinedValue[] => {
+  const quarantine = loadQuarantine().filter(entry =>
+    entry.key !== item.key || entry.quarantinedAt !== item.quarantinedAt
+  );
+  saveQuarantine(quarantine);
+  return quarantine;
+};
+
+/**
+ * Drop everything in the recovery slot
+ */
+export const clearQuarantine = (): void => {
+  saveQuarantine([]);
+};
+
+/**
+ * Download the set-aside values as they were stored, to keep or send for help
+ */
+export const downloadQuarantine = (): void => {
+  const data = JSON.stringify({ exportDate: new Date().toISOString(), values: loadQuarantine() }, null, 2);
+  const blob = new Blob([data], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+
+  const date = new Date().toISOString().split('T')[0];
+  a.download = `pomospace-recovery-${date}.json`;
+  a.href = url;
+  a.click();
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,90 @@
+/**
+ * Tab indicator for PomoSpace
+ * Shows the countdown in the page title and a progress ring in the favicon,
+ * so the timer can be followed from a background tab.
+ */
+import type { TimerType } from './timerMachine';
+
+// Phase colours, the 600 shades of the backgrounds picked in App's getBgColor
+export const PHASE_COLORS: Record<TimerType, string> = {
+  pomodoro: '#4f46e5',       // indigo-600
+  shortBreak: '#7c3aed',     // violet-600
+  longBreak: '#0d9488',      // teal-600
+  stopwatch: '#475569'       // slate-600
+};
+
+const PHASE_LABELS: Record<TimerType, string> = {
+  pomodoro: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+  stopwatch: 'Stopwatch'
+};
+
+const FAVICON_SIZE = 64;
+
+/**
+ * Page title for a phase, e.g. "12:34 • Focus – Write report"
+ */
+export const formatTabTitle = (time: string, timerType: TimerType, taskName: string | null): string => {
+  const title = `${time} • ${PHASE_LABELS[timerType]}`;
+  return taskName ? `${title} – ${taskName}` : title;
+};
+
+/**
+ * Draw a progress ring as a PNG data URL, or null where canvas isn't available.
+ * `progress` runs from 0 (just started) to 1 (done).
+ */
+export const drawProgressFavicon = (progress: number, color: string): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = FAVICON_SIZE;
+  canvas.height = FAVICON_SIZE;
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const center = FAVICON_SIZE / 2;
+  const radius = center - 6;
+  const clamped = Math.min(1, Math.max(0, progress));
+
+  // Faded full track
+  context.lineWidth = 10;
+  context.strokeStyle = color;
+  context.globalAlpha = 0.3;
+  context.beginPath();
+  context.arc(center, center, radius, 0, Math.PI * 2);
+  context.stroke();
+
+  // Elapsed part, clockwise from the top
+  context.globalAlpha = 1;
+  context.lineCap = 'round';
+  context.beginPath();
+  context.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + clamped * Math.PI * 2);
+  context.stroke();
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Current favicon href, as written in the page
+ */
+export const getFavicon = (): string | null => {
+  const link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  return link ? link.getAttribute('href') : null;
+};
+
+/**
+ * Point the page's favicon link at `href`, creating the link if needed
+ */
+export const setFavicon = (href: string): void => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+
+  // The static icon is an SVG, the drawn ones are PNGs
+  link.type = href.startsWith('data:image/png') ? 'image/png' : 'image/svg+xml';
+  link.href = href;
+};
@@ -0,0 +1,167 @@
+/**
+ * Cross-tab synchronization utilities for PomoSpace
+ * Shares state between open tabs and elects a single leader tab
+ * that owns time-driven side effects (completions, alarms).
+ */
+
+interface TabSyncOptions<T> {
+  channelName: string;        // BroadcastChannel name
+  storageKey: string;         // localStorage key holding the same payload, used as fallback
+  onMessage: (payload: T) => void;
+}
+
+interface TabMessage<T> {
+  from: string;
+  payload: T;
+}
+
+interface LeaderElectionOptions {
+  name: string;               // Lock name (and lease key for the fallback)
+  onChange: (isLeader: boolean) => void;
+}
+
+interface LeaderLease {
+  tabId: string;
+  expiresAt: number;
+}
+
+// Fallback lease timings for browsers without the Web Locks API
+const LEASE_DURATION_MS = 5000;
+const LEASE_HEARTBEAT_MS = 2000;
+
+// Unique id for this tab
+export const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Broadcast payloads to other tabs. Uses BroadcastChannel when available,
+ * otherwise listens for `storage` events on the key the payload is saved under.
+ */
+export function createTabSync<T>({ channelName, storageKey, onMessage }: TabSyncOptions<T>) {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+
+    channel.onmessage = (event: MessageEvent<TabMessage<T>>) => {
+      if (event.data && event.data.from !== TAB_ID) {
+        onMessage(event.data.payload);
+      }
+    };
+
+    return {
+      broadcast: (payload: T) => {
+        const message: TabMessage<T> = { from: TAB_ID, payload };
+        channel.postMessage(message);
+      },
+      close: () => channel.close()
+    };
+  }
+
+  // The payload is already persisted, so other tabs get it through the storage event
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey || !event.newValue) return;
+
+    try {
+      onMessage(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error(`Error reading ${storageKey} from another tab:`, error);
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    broadcast: () => {
+      // Nothing to do, writing to localStorage notifies the other tabs
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+}
+
+/**
+ * Elect one leader among the open tabs. Uses the Web Locks API when
+ * available (the lock is released when the tab closes), otherwise a
+ * heartbeat lease in localStorage.
+ */
+export function createLeaderElection({ name, onChange }: LeaderElectionOptions) {
+  let isLeader = false;
+
+  const setLeader = (leader: boolean) => {
+    if (leader === isLeader) return;
+
+    isLeader = leader;
+    console.log(leader ? 'This tab is now the timer leader' : 'This tab is no longer the timer leader');
+    onChange(leader);
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    const abortController = new AbortController();
+    let releaseLock: (() => void) | null = null;
+
+    navigator.locks.request(name, { signal: abortController.signal }, () => {
+      setLeader(true);
+
+      // Hold the lock until this tab stops or closes
+      return new Promise<void>(resolve => {
+        releaseLock = resolve;
+      });
+    }).catch(error => {
+      if (error.name !== 'AbortError') {
+        console.error('Error requesting leader lock:', error);
+      }
+    });
+
+    return {
+      isLeader: () => isLeader,
+      stop: () => {
+        abortController.abort();
+        if (releaseLock) releaseLock();
+        setLeader(false);
+      }
+    };
+  }
+
+  const claimLease = () => {
+    try {
+      const now = Date.now();
+      const stored = localStorage.getItem(name);
+      const lease: LeaderLease | null = stored ? JSON.parse(stored) : null;
+
+      if (!lease || lease.tabId === TAB_ID || lease.expiresAt < now) {
+        const newLease: LeaderLease = { tabId: TAB_ID, expiresAt: now + LEASE_DURATION_MS };
+        localStorage.setItem(name, JSON.stringify(newLease));
+      }
+
+      // Read back in case another tab claimed it at the same time
+      const confirmed = JSON.parse(localStorage.getItem(name) || 'null') as LeaderLease | null;
+      setLeader(!!confirmed && confirmed.tabId === TAB_ID);
+    } catch (error) {
+      console.error('Error claiming leader lease:', error);
+    }
+  };
+
+  const releaseLease = () => {
+    try {
+      const stored = localStorage.getItem(name);
+      const lease: LeaderLease | null = stored ? JSON.parse(stored) : null;
+
+      if (lease && lease.tabId === TAB_ID) {
+        localStorage.removeItem(name);
+      }
+    } catch (error) {
+      console.error('Error releasing leader lease:', error);
+    }
+  };
+
+  claimLease();
+  const heartbeat = setInterval(claimLease, LEASE_HEARTBEAT_MS);
+  window.addEventListener('beforeunload', releaseLease);
+
+  return {
+    isLeader: () => isLeader,
+    stop: () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('beforeunload', releaseLease);
+      releaseLease();
+      setLeader(false);
+    }
+  };
+}
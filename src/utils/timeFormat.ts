@@ -0,0 +1,47 @@
+/**
+ * How the timer reads, shared by the timer card, the focus view and the tab title
+ */
+import type { TimerType } from './timerMachine';
+
+// What the timer display needs to know about the phase in progress
+interface TimerReading {
+  timerType: TimerType;
+  isOvertime: boolean;
+  timeRemaining: number;
+  overtime: number;
+  elapsed: number;
+  duration: number;
+}
+
+/**
+ * Format time as MM:SS
+ */
+export const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Format overtime as +MM:SS
+ */
+export const formatOvertime = (seconds: number): string => `+${formatTime(seconds)}`;
+
+/**
+ * Time as shown on the timer: counting down, counting up for the stopwatch,
+ * or the overtime of a pomodoro past zero
+ */
+export const getDisplayTime = ({ timerType, isOvertime, timeRemaining, overtime, elapsed }: TimerReading): string => {
+  if (isOvertime) return formatOvertime(overtime);
+  return timerType === 'stopwatch' ? formatTime(elapsed) : formatTime(timeRemaining);
+};
+
+/**
+ * How much of the phase has passed, from 0 to 1.
+ * The stopwatch has no end, its ring goes round once an hour.
+ */
+export const getPhaseProgress = ({ timerType, isOvertime, timeRemaining, elapsed, duration }: TimerReading): number => {
+  if (isOvertime) return 1;
+  if (timerType === 'stopwatch') return (elapsed % 3600) / 3600;
+  return duration > 0 ? 1 - timeRemaining / duration : 0;
+};
@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  TimerEffect,
+  TimerMachine,
+  TimerMachineState,
+  TimerSettings,
+  TimerStorage,
+  createMemoryTimerStorage,
+  createTimerMachine
+} from './timerMachine';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 0, 5, 9, 0, 0);
+
+const SETTINGS: TimerSettings = {
+  timerDurations: { pomodoro: 25, shortBreak: 5, longBreak: 15 },
+  longBreakInterval: 4,
+  autoStartBreaks: false,
+  autoStartPomodoros: false
+};
+
+// A clock that only moves when told to
+const createFakeClock = (start: number) => {
+  let time = start;
+  return {
+    now: () => time,
+    tick: (ms: number) => {
+      time += ms;
+    }
+  };
+};
+
+describe('timer machine', () => {
+  let clock: ReturnType<typeof createFakeClock>;
+  let storage: TimerStorage;
+  let effects: TimerEffect[];
+
+  const createMachine = (settings: Partial<TimerSettings> = {}): TimerMachine => {
+    const machine = createTimerMachine({ settings: { ...SETTINGS, ...settings }, clock, storage });
+    machine.subscribe((_state, newEffects) => effects.push(...newEffects));
+    return machine;
+  };
+
+  beforeEach(() => {
+    clock = createFakeClock(START);
+    storage = createMemoryTimerStorage();
+    effects = [];
+  });
+
+  describe('start, pause and resume', () => {
+    it('counts down from the pomodoro duration once started', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(10 * MINUTE);
+
+      expect(machine.getState().status).toBe('running');
+      expect(machine.getTimeRemaining()).toBe(15 * 60);
+    });
+
+    it('stops counting while paused and picks up where it left off', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(10 * MINUTE);
+      machine.send({ type: 'pause' });
+      clock.tick(30 * MINUTE);
+
+      expect(machine.getState().status).toBe('paused');
+      expect(machine.getTimeRemaining()).toBe(15 * 60);
+
+      machine.send({ type: 'resume' });
+      clock.tick(5 * MINUTE);
+
+      expect(machine.getState().status).toBe('running');
+      expect(machine.getTimeRemaining()).toBe(10 * 60);
+    });
+
+    it('saves every transition to its storage', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+
+      expect((storage.load() as TimerMachineState).status).toBe('running');
+      expect(storage.load()).toEqual(machine.getState());
+    });
+
+    it('restores a running timer from storage', () => {
+      createMachine().send({ type: 'start' });
+      clock.tick(5 * MINUTE);
+
+      const restored = createMachine();
+      expect(restored.getState().status).toBe('running');
+      expect(restored.getTimeRemaining()).toBe(20 * 60);
+    });
+  });
+
+  describe('completion catch-up', () => {
+    it('completes a pomodoro at its deadline and moves on to a break', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(25 * MINUTE);
+      machine.advance();
+
+      expect(effects).toEqual([
+        expect.objectContaining({ type: 'phaseCompleted', completedType: 'pomodoro', nextType: 'shortBreak', at: START + 25 * MINUTE })
+      ]);
+      expect(machine.getState()).toMatchObject({ status: 'completed', activeType: 'shortBreak', completedPomodoros: 1 });
+    });
+
+    it('stamps a completion caught up later with its deadline', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(3 * 60 * MINUTE);
+      machine.advance();
+
+      expect(effects).toHaveLength(1);
+      expect(effects[0]).toMatchObject({ type: 'phaseCompleted', at: START + 25 * MINUTE });
+    });
+
+    it('auto-starts the next phase after the grace period while someone is there', () => {
+      const machine = createMachine({ autoStartBreaks: true });
+      machine.send({ type: 'start' });
+      clock.tick(25 * MINUTE);
+      machine.advance();
+      clock.tick(5 * 1000);
+      machine.advance();
+
+      expect(effects.map(effect => effect.type)).toEqual(['phaseCompleted', 'autoStarted']);
+      expect(machine.getState()).toMatchObject({ status: 'running', activeType: 'shortBreak' });
+    });
+
+    it("doesn't chain auto-started pomodoros through time nobody was there for", () => {
+      const machine = createMachine({ autoStartBreaks: true, autoStartPomodoros: true });
+      machine.send({ type: 'start' });
+      clock.tick(5 * 60 * MINUTE);
+      machine.advance();
+
+      expect(effects.map(effect => effect.type)).toEqual(['phaseCompleted']);
+      expect(machine.getState()).toMatchObject({
+        status: 'completed',
+        activeType: 'shortBreak',
+        completedPomodoros: 1,
+        pendingAutoStart: null
+      });
+    });
+  });
+
+  describe('skip and extend', () => {
+    it('skips to a break without counting the pomodoro', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(10 * MINUTE);
+      machine.send({ type: 'skip' });
+
+      expect(effects).toEqual([
+        expect.objectContaining({ type: 'phaseSkipped', skippedType: 'pomodoro', nextType: 'shortBreak' })
+      ]);
+      expect(effects[0]).toMatchObject({ summary: { elapsed: 10 * 60 } });
+      expect(machine.getState()).toMatchObject({ activeType: 'shortBreak', completedPomodoros: 0 });
+    });
+
+    it('adds time to the phase in progress', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(20 * MINUTE);
+      machine.send({ type: 'extend', minutes: 5 });
+
+      expect(machine.getTimeRemaining()).toBe(10 * 60);
+
+      clock.tick(10 * MINUTE);
+      machine.advance();
+
+      expect(effects[0]).toMatchObject({ type: 'phaseCompleted', summary: { elapsed: 30 * 60, extended: 5 * 60 } });
+    });
+
+    it("doesn't extend a phase that hasn't started", () => {
+      const machine = createMachine();
+      const before = machine.getState();
+      machine.send({ type: 'extend', minutes: 5 });
+
+      expect(machine.getState()).toBe(before);
+    });
+  });
+
+  describe('overtime', () => {
+    it('keeps a finished pomodoro counting in flow mode until it is finished', () => {
+      const machine = createMachine({ flowMode: true });
+      machine.send({ type: 'start' });
+      clock.tick(25 * MINUTE);
+      machine.advance();
+
+      expect(effects).toEqual([expect.objectContaining({ type: 'overtimeStarted', at: START + 25 * MINUTE })]);
+      expect(machine.getState().status).toBe('overtime');
+
+      clock.tick(7 * MINUTE);
+      expect(machine.getOvertime()).toBe(7 * 60);
+
+      machine.send({ type: 'finish' });
+
+      expect(effects[1]).toMatchObject({ type: 'phaseCompleted', completedType: 'pomodoro', summary: { elapsed: 32 * 60 } });
+      expect(machine.getState()).toMatchObject({ status: 'completed', activeType: 'shortBreak' });
+    });
+
+    it('completes breaks on time in flow mode', () => {
+      const machine = createMachine({ flowMode: true });
+      machine.send({ type: 'switchType', timerType: 'shortBreak' });
+      machine.send({ type: 'start' });
+      clock.tick(5 * MINUTE);
+      machine.advance();
+
+      expect(effects.map(effect => effect.type)).toEqual(['phaseCompleted']);
+    });
+  });
+
+  describe('settingsChanged', () => {
+    it('applies new durations to the phases', () => {
+      const machine = createMachine();
+      machine.send({ type: 'settingsChanged', settings: { ...SETTINGS, timerDurations: { pomodoro: 50, shortBreak: 10, longBreak: 20 } } });
+
+      expect(machine.getTimeRemaining()).toBe(50 * 60);
+      expect(machine.getState().shortBreak.duration).toBe(10 * 60);
+    });
+
+    it('keeps time already counted and time added with extend', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      clock.tick(10 * MINUTE);
+      machine.send({ type: 'extend', minutes: 5 });
+      machine.send({ type: 'settingsChanged', settings: { ...SETTINGS, timerDurations: { ...SETTINGS.timerDurations, pomodoro: 30 } } });
+
+      expect(machine.getTimeRemaining()).toBe(25 * 60);
+    });
+
+    it('uses the new settings for what happens next', () => {
+      const machine = createMachine();
+      machine.send({ type: 'start' });
+      machine.send({ type: 'settingsChanged', settings: { ...SETTINGS, autoStartBreaks: true } });
+      clock.tick(25 * MINUTE);
+      machine.advance();
+
+      expect(machine.getState().pendingAutoStart).toEqual({ type: 'shortBreak', startsAt: START + 25 * MINUTE + 5 * 1000 });
+    });
+  });
+});
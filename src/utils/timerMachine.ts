@@ -0,0 +1,986 @@
+/**
+ * Timer state machine for PomoSpace
+ * Framework-free timer logic: time comes from an injected clock and
+ * persistence from an injected storage, so every transition is deterministic.
+ */
+import { FocusPlan, isFocusPlan, planFocusBlocks } from './focusPlan';
+
+// Define types for our timer
+// 'stopwatch' counts up with no fixed duration
+export type TimerType = 'pomodoro' | 'shortBreak' | 'longBreak' | 'stopwatch';
+
+// Status of the active phase
+// 'overtime' is a pomodoro counting past zero in flow mode
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed' | 'overtime';
+
+// Where an interruption came from
+export type InterruptionKind = 'internal' | 'external';
+
+// A pause during a pomodoro that the user explained
+export interface Interruption {
+  kind: InterruptionKind;
+  note: string;
+  startedAt: number;         // Unix timestamp when the timer was paused
+  duration: number | null;   // Length in seconds, null while still paused
+}
+
+// Basic timer state for a single phase
+export interface PhaseState {
+  startTime: number | null;  // Unix timestamp when the timer started
+  duration: number;          // Total time for the session in seconds
+  elapsed: number;           // Time elapsed in seconds (for paused state calculation)
+  isRunning: boolean;        // Whether the timer is actively counting
+  pausedAt: number | null;   // Unix timestamp of the current pause
+  interruptions: Interruption[]; // Interruptions logged during this session
+  extended: number;          // Seconds added on top of the configured duration
+}
+
+// What happened during a phase that just ended
+export interface PhaseSummary {
+  elapsed: number;           // Seconds actually spent, overtime included
+  extended: number;          // Seconds added with extend
+  interruptions: Interruption[];
+}
+
+// Next phase scheduled to start automatically after a completion
+export interface PendingAutoStart {
+  type: TimerType;           // Timer type that will be started
+  startsAt: number;          // Unix timestamp when the phase starts
+}
+
+// Full machine state, persisted as-is
+export interface TimerMachineState {
+  status: TimerStatus;       // Status of the active phase
+  activeType: TimerType;     // Currently active timer type
+  pomodoro: PhaseState;
+  shortBreak: PhaseState;
+  longBreak: PhaseState;
+  stopwatch: PhaseState;
+  completedPomodoros: number; // Count of completed pomodoros
+  pendingAutoStart: PendingAutoStart | null; // Next phase waiting to start automatically
+  plan: FocusPlan | null;    // "Focus until" plan being run, if any
+}
+
+export interface TimerSettings {
+  timerDurations: {
+    pomodoro: number;
+    shortBreak: number;
+    longBreak: number;
+  };
+  longBreakInterval: number;
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
+  flowMode?: boolean;        // Let a finished pomodoro keep counting as overtime
+  pauseTimeoutMinutes?: number; // Abandon a pomodoro paused for longer than this, 0 or missing never does
+}
+
+// Events accepted by the machine
+export type TimerEvent =
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'logInterruption'; kind: InterruptionKind; note: string }
+  | { type: 'resume' }
+  | { type: 'reset'; logPartial?: boolean }  // logPartial: the time so far should be kept
+  | { type: 'skip' }
+  | { type: 'extend'; minutes: number }
+  | { type: 'complete' }
+  | { type: 'finish' }
+  | { type: 'switchType'; timerType: TimerType }
+  | { type: 'cancelAutoStart' }
+  | { type: 'postpone'; minutes: number }
+  | { type: 'startPlan'; endsAt: number }
+  | { type: 'cancelPlan' }
+  | { type: 'settingsChanged'; settings: TimerSettings };
+
+// Side effects produced by transitions, handled by whoever drives the machine
+export type TimerEffect =
+  | { type: 'phaseCompleted'; completedType: TimerType; nextType: TimerType; at: number; summary: PhaseSummary }
+  | { type: 'overtimeStarted'; timerType: TimerType; at: number }
+  | { type: 'phaseSkipped'; skippedType: TimerType; nextType: TimerType; at: number; summary: PhaseSummary }
+  | { type: 'phaseAbandoned'; abandonedType: TimerType; at: number; summary: PhaseSummary }
+  | { type: 'phaseReset'; resetType: TimerType; at: number; summary: PhaseSummary; logPartial: boolean }
+  | { type: 'autoStarted'; timerType: TimerType; at: number };
+
+export type TimerListener = (state: TimerMachineState, effects: TimerEffect[]) => void;
+
+// Source of the current time
+export interface Clock {
+  now(): number;
+}
+
+// Persistence for the machine state
+export interface TimerStorage {
+  load(): unknown;
+  save(state: TimerMachineState): void;
+}
+
+export interface TimerMachine {
+  getState(): TimerMachineState;
+  getTimeRemaining(): number;
+  getOvertime(): number;
+  getElapsed(): number;
+  getAutoStartCountdown(): number | null;
+  getNextDeadline(): number | null;
+  send(event: TimerEvent): void;
+  advance(): void;
+  hydrate(raw: unknown): void;
+  setAdvancing(enabled: boolean): void;
+  subscribe(listener: TimerListener): () => void;
+}
+
+interface TimerMachineOptions {
+  settings: TimerSettings;
+  clock?: Clock;
+  storage?: TimerStorage;
+  advancing?: boolean;        // Whether time-based transitions run here (false for follower tabs)
+}
+
+interface TransitionResult {
+  state: TimerMachineState;
+  effects: TimerEffect[];
+}
+
+export const TIMER_TYPES: TimerType[] = ['pomodoro', 'shortBreak', 'longBreak', 'stopwatch'];
+
+// Grace period before the next phase starts automatically
+export const AUTO_START_DELAY_SECONDS = 5;
+
+// Upper bound on phases replayed in one advance, guards against bad durations
+const MAX_CATCH_UP_PHASES = 100;
+
+// An automatic start due longer ago than this happened with nobody around
+// (the app was closed or the computer asleep), so it waits for the user instead
+const MAX_AUTO_START_LATENESS_SECONDS = 60;
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * Create a timer machine bound to a clock and a storage
+ */
+export function createTimerMachine({
+  settings,
+  clock = systemClock,
+  storage,
+  advancing = true
+}: TimerMachineOptions): TimerMachine {
+  let currentSettings = settings;
+  let isAdvancing = advancing;
+  let state = (storage && restoreState(storage.load(), settings)) || createInitialState(settings);
+  const listeners = new Set<TimerListener>();
+
+  // Store a new state and tell subscribers about it
+  const commit = (result: TransitionResult) => {
+    if (result.state === state && result.effects.length === 0) return;
+
+    state = result.state;
+
+    if (storage) {
+      storage.save(state);
+    }
+
+    listeners.forEach(listener => listener(state, result.effects));
+  };
+
+  const advance = () => {
+    if (!isAdvancing) return;
+
+    commit(advanceState(state, currentSettings, clock.now()));
+  };
+
+  const send = (event: TimerEvent) => {
+    const now = clock.now();
+
+    // Apply anything that became due before handling the event
+    const advanced = isAdvancing ? advanceState(state, currentSettings, now) : unchanged(state);
+
+    if (event.type === 'settingsChanged') {
+      currentSettings = event.settings;
+    }
+
+    const result = transition(advanced.state, event, currentSettings, now);
+    commit({ state: result.state, effects: [...advanced.effects, ...result.effects] });
+  };
+
+  return {
+    getState: () => state,
+    getTimeRemaining: () => getTimeRemaining(state, clock.now()),
+    getOvertime: () => getOvertime(state, clock.now()),
+    getElapsed: () => getElapsed(state, clock.now()),
+    getAutoStartCountdown: () => getAutoStartCountdown(state, clock.now()),
+    getNextDeadline: () => getNextDeadline(state, currentSettings),
+    send,
+    advance,
+    // Take over a state produced elsewhere (another tab), without saving it again
+    hydrate: (raw: unknown) => {
+      const restored = restoreState(raw, currentSettings);
+      if (!restored) return;
+
+      state = restored;
+      listeners.forEach(listener => listener(state, []));
+    },
+    setAdvancing: (enabled: boolean) => {
+      isAdvancing = enabled;
+    },
+    subscribe: (listener: TimerListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+/**
+ * Apply a single event to a state
+ */
+export function transition(
+  state: TimerMachineState,
+  event: TimerEvent,
+  settings: TimerSettings,
+  now: number
+): TransitionResult {
+  const activeTimer = state[state.activeType];
+
+  switch (event.type) {
+    case 'start': {
+      if (state.status !== 'idle' && state.status !== 'completed') return unchanged(state);
+
+      // Starting manually skips the rest of the auto-start grace period
+      return {
+        state: startPhaseAt(state, state.activeType, now - activeTimer.elapsed * 1000),
+        effects: []
+      };
+    }
+
+    case 'pause': {
+      if (state.status !== 'running') return unchanged(state);
+
+      return {
+        state: {
+          ...state,
+          status: 'paused',
+          [state.activeType]: pausePhase(activeTimer, now)
+        },
+        effects: []
+      };
+    }
+
+    case 'logInterruption': {
+      // Explain the current pause; logging again just edits it
+      if (state.status !== 'paused' || state.activeType !== 'pomodoro') return unchanged(state);
+
+      const interruptions = activeTimer.interruptions;
+      const last = interruptions[interruptions.length - 1];
+      const isOpen = last && last.duration === null;
+      const interruption: Interruption = {
+        kind: event.kind,
+        note: event.note.trim(),
+        startedAt: isOpen ? last.startedAt : activeTimer.pausedAt || now,
+        duration: null
+      };
+
+      return {
+        state: {
+          ...state,
+          [state.activeType]: {
+            ...activeTimer,
+            interruptions: isOpen
+              ? [...interruptions.slice(0, -1), interruption]
+              : [...interruptions, interruption]
+          }
+        },
+        effects: []
+      };
+    }
+
+    case 'resume': {
+      if (state.status !== 'paused') return unchanged(state);
+
+      return {
+        state: startPhaseAt(state, state.activeType, now - activeTimer.elapsed * 1000),
+        effects: []
+      };
+    }
+
+    case 'reset': {
+      // Report the time thrown away, so it can still be logged
+      const wasStarted = state.status === 'running' || state.status === 'paused' || state.status === 'overtime';
+      const effects: TimerEffect[] = wasStarted
+        ? [{
+          type: 'phaseReset',
+          resetType: state.activeType,
+          at: now,
+          summary: summarizePhase(activeTimer, now),
+          logPartial: !!event.logPartial
+        }]
+        : [];
+
+      // Taking over by hand ends a running plan
+      return {
+        state: {
+          ...endPlan(state, settings),
+          status: 'idle',
+          pendingAutoStart: null,
+          [state.activeType]: createPhaseState(getDurationFromSettings(state.activeType, settings))
+        },
+        effects
+      };
+    }
+
+    case 'complete': {
+      if (state.status !== 'running' && state.status !== 'paused') return unchanged(state);
+
+      return completePhase(state, settings, now);
+    }
+
+    case 'finish': {
+      // Stop the stopwatch and report the time it counted
+      if (state.activeType === 'stopwatch') {
+        if (state.status !== 'running' && state.status !== 'paused') return unchanged(state);
+
+        return {
+          state: {
+            ...state,
+            status: 'idle',
+            stopwatch: createPhaseState(0)
+          },
+          effects: [{
+            type: 'phaseCompleted',
+            completedType: 'stopwatch',
+            nextType: 'stopwatch',
+            at: now,
+            summary: summarizePhase(activeTimer, now)
+          }]
+        };
+      }
+
+      // End a pomodoro that ran into overtime, keeping the extra time
+      if (state.status !== 'overtime') return unchanged(state);
+
+      return completePhase(state, settings, now);
+    }
+
+    case 'skip': {
+      // The stopwatch isn't part of the cycle, it's stopped with finish
+      if (state.activeType === 'stopwatch') return unchanged(state);
+
+      const skippedType = state.activeType;
+      const summary = summarizePhase(activeTimer, now);
+      const result = advanceToNextPhase(state, settings, now, false);
+
+      return {
+        state: result.state,
+        effects: [{ type: 'phaseSkipped', skippedType, nextType: result.nextType, at: now, summary }]
+      };
+    }
+
+    case 'extend': {
+      // Only a phase in progress can be extended, overtime and the stopwatch already run open-ended
+      if ((state.status !== 'running' && state.status !== 'paused') ||
+          state.activeType === 'stopwatch' ||
+          event.minutes <= 0) {
+        return unchanged(state);
+      }
+
+      const addedSeconds = Math.round(event.minutes * 60);
+
+      return {
+        state: {
+          ...state,
+          [state.activeType]: {
+            ...activeTimer,
+            duration: activeTimer.duration + addedSeconds,
+            extended: activeTimer.extended + addedSeconds
+          }
+        },
+        effects: []
+      };
+    }
+
+    case 'switchType': {
+      if (event.timerType === state.activeType) return unchanged(state);
+
+      // Switching away pauses whatever was counting
+      const leftTimer = activeTimer.isRunning ? pausePhase(activeTimer, now) : activeTimer;
+      const nextTimer = state[event.timerType];
+
+      return {
+        state: endPlan({
+          ...state,
+          [state.activeType]: leftTimer,
+          activeType: event.timerType,
+          status: nextTimer.elapsed > 0 ? 'paused' : 'idle',
+          pendingAutoStart: null
+        }, settings),
+        effects: []
+      };
+    }
+
+    case 'cancelAutoStart': {
+      if (!state.pendingAutoStart) return unchanged(state);
+
+      return {
+        state: { ...state, pendingAutoStart: null },
+        effects: []
+      };
+    }
+
+    case 'postpone': {
+      // Start the waiting phase on its own a little later
+      if ((state.status !== 'idle' && state.status !== 'completed') ||
+          state.activeType === 'stopwatch' ||
+          event.minutes <= 0) {
+        return unchanged(state);
+      }
+
+      return {
+        state: {
+          ...state,
+          status: 'completed',
+          pendingAutoStart: { type: state.activeType, startsAt: now + Math.round(event.minutes * 60) * 1000 }
+        },
+        effects: []
+      };
+    }
+
+    case 'startPlan': {
+      if (state.status !== 'idle' && state.status !== 'completed') return unchanged(state);
+
+      const blocks = planFocusBlocks(now, event.endsAt, settings, state.completedPomodoros);
+      if (blocks.length === 0) return unchanged(state);
+
+      // The plan always opens with a pomodoro
+      const planned: TimerMachineState = {
+        ...state,
+        activeType: blocks[0].type,
+        plan: { endsAt: event.endsAt, blocks, index: 0 },
+        [blocks[0].type]: createPhaseState(blocks[0].duration)
+      };
+
+      return {
+        state: startPhaseAt(planned, blocks[0].type, now),
+        effects: []
+      };
+    }
+
+    case 'cancelPlan': {
+      if (!state.plan) return unchanged(state);
+
+      return {
+        state: endPlan(state, settings),
+        effects: []
+      };
+    }
+
+    case 'settingsChanged': {
+      // A running plan keeps the durations it was made with
+      return {
+        state: state.plan ? state : applyDurations(state, event.settings),
+        effects: []
+      };
+    }
+
+    default:
+      return unchanged(state);
+  }
+}
+
+/**
+ * Apply every time-based transition that is due by `now`: phases reaching
+ * zero, auto-starts whose grace period passed and pomodoros paused for too long.
+ * An auto-start that is long overdue is dropped, leaving the next phase waiting.
+ */
+export function advanceState(state: TimerMachineState, settings: TimerSettings, now: number): TransitionResult {
+  const effects: TimerEffect[] = [];
+  let current = state;
+
+  for (let i = 0; i < MAX_CATCH_UP_PHASES; i++) {
+    const endTime = getActiveEndTime(current);
+
+    // In flow mode a pomodoro reaching zero keeps counting until finished, unless a plan is running
+    if (endTime !== null && endTime <= now && current.activeType === 'pomodoro' && settings.flowMode && !current.plan) {
+      current = { ...current, status: 'overtime' };
+      effects.push({ type: 'overtimeStarted', timerType: current.activeType, at: endTime });
+      continue;
+    }
+
+    // The running phase reached zero, stamp it with its deadline
+    if (endTime !== null && endTime <= now) {
+      const result = completePhase(current, settings, endTime);
+      effects.push(...result.effects);
+      current = result.state;
+      continue;
+    }
+
+    // The grace period of an automatic start has passed. When catching up on
+    // time nobody was there for, stop at the phase rather than chaining into more.
+    const pending = current.pendingAutoStart;
+    if (endTime === null && pending && pending.startsAt <= now) {
+      if (now - pending.startsAt > MAX_AUTO_START_LATENESS_SECONDS * 1000) {
+        current = { ...current, pendingAutoStart: null };
+        break;
+      }
+
+      current = startPhaseAt(current, pending.type, pending.startsAt);
+      effects.push({ type: 'autoStarted', timerType: pending.type, at: pending.startsAt });
+      continue;
+    }
+
+    // The pomodoro was left paused past the timeout
+    const abandonAt = getAbandonTime(current, settings);
+    if (abandonAt !== null && abandonAt <= now) {
+      const abandonedType = current.activeType;
+      effects.push({
+        type: 'phaseAbandoned',
+        abandonedType,
+        at: abandonAt,
+        summary: summarizePhase(current[abandonedType], abandonAt)
+      });
+      current = {
+        ...endPlan(current, settings),
+        status: 'idle',
+        [abandonedType]: createPhaseState(getDurationFromSettings(abandonedType, settings))
+      };
+      continue;
+    }
+
+    break;
+  }
+
+  return { state: current, effects };
+}
+
+/**
+ * Seconds left in the active phase
+ */
+export function getTimeRemaining(state: TimerMachineState, now: number): number {
+  const timer = state[state.activeType];
+
+  if (!timer.isRunning || !timer.startTime) {
+    return Math.max(0, timer.duration - timer.elapsed);
+  }
+
+  const elapsedSeconds = Math.floor((now - timer.startTime) / 1000);
+  return Math.max(0, timer.duration - elapsedSeconds);
+}
+
+/**
+ * Seconds the active phase has been counting, pauses excluded
+ */
+export function getElapsed(state: TimerMachineState, now: number): number {
+  const timer = state[state.activeType];
+
+  if (!timer.isRunning || !timer.startTime) return timer.elapsed;
+
+  return Math.max(0, Math.floor((now - timer.startTime) / 1000));
+}
+
+/**
+ * Seconds the active phase has run past zero
+ */
+export function getOvertime(state: TimerMachineState, now: number): number {
+  const timer = state[state.activeType];
+
+  if (state.status !== 'overtime' || !timer.startTime) return 0;
+
+  const elapsedSeconds = Math.floor((now - timer.startTime) / 1000);
+  return Math.max(0, elapsedSeconds - timer.duration);
+}
+
+/**
+ * Seconds left before the pending phase starts automatically
+ */
+export function getAutoStartCountdown(state: TimerMachineState, now: number): number | null {
+  if (!state.pendingAutoStart) return null;
+
+  return Math.max(0, Math.ceil((state.pendingAutoStart.startsAt - now) / 1000));
+}
+
+/**
+ * Timestamp of the next time-based transition, if any
+ */
+export function getNextDeadline(state: TimerMachineState, settings: TimerSettings): number | null {
+  const endTime = getActiveEndTime(state);
+  if (endTime !== null) return endTime;
+
+  if (state.pendingAutoStart) return state.pendingAutoStart.startsAt;
+
+  return getAbandonTime(state, settings);
+}
+
+/**
+ * When the running phase will complete on its own and what comes next,
+ * or null if it won't (paused, open-ended, or running into flow mode overtime)
+ */
+export function getUpcomingCompletion(
+  state: TimerMachineState,
+  settings: TimerSettings
+): { at: number; nextType: TimerType } | null {
+  const at = state.status === 'running' ? getActiveEndTime(state) : null;
+  if (at === null) return null;
+
+  if (state.activeType === 'pomodoro' && settings.flowMode && !state.plan) return null;
+
+  const nextBlock = state.plan ? state.plan.blocks[state.plan.index + 1] : undefined;
+  return { at, nextType: nextBlock ? nextBlock.type : getNextTimerType(state, settings, true) };
+}
+
+/**
+ * Fresh state with every phase at its configured duration
+ */
+export function createInitialState(settings: TimerSettings): TimerMachineState {
+  return {
+    status: 'idle',
+    activeType: 'pomodoro',
+    completedPomodoros: 0,
+    pendingAutoStart: null,
+    plan: null,
+    pomodoro: createPhaseState(getDurationFromSettings('pomodoro', settings)),
+    shortBreak: createPhaseState(getDurationFromSettings('shortBreak', settings)),
+    longBreak: createPhaseState(getDurationFromSettings('longBreak', settings)),
+    stopwatch: createPhaseState(0)
+  };
+}
+
+/**
+ * Validate a stored state, returning null when it can't be used
+ */
+export function restoreState(raw: unknown, settings: TimerSettings): TimerMachineState | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const parsedState = raw as Partial<TimerMachineState>;
+
+  // Basic structure validation, states from before the stopwatch don't have one
+  if (!parsedState.activeType ||
+      !TIMER_TYPES.includes(parsedState.activeType) ||
+      TIMER_TYPES.some(type => type !== 'stopwatch' && !isPhaseState(parsedState[type]))) {
+    console.log('Invalid saved timer state found');
+    return null;
+  }
+
+  const restored: TimerMachineState = {
+    status: 'idle',
+    activeType: parsedState.activeType,
+    completedPomodoros: parsedState.completedPomodoros || 0,
+    pendingAutoStart: parsedState.pendingAutoStart || null,
+    plan: isFocusPlan(parsedState.plan) ? parsedState.plan : null,
+    pomodoro: { ...parsedState.pomodoro as PhaseState },
+    shortBreak: { ...parsedState.shortBreak as PhaseState },
+    longBreak: { ...parsedState.longBreak as PhaseState },
+    stopwatch: isPhaseState(parsedState.stopwatch) ? { ...parsedState.stopwatch } : createPhaseState(0)
+  };
+
+  // Only the running active phase (or the active block of a plan) keeps its
+  // stored duration, so in-progress timers survive settings changes made elsewhere
+  TIMER_TYPES.forEach(type => {
+    const isActiveRunning = type === restored.activeType && (restored[type].isRunning || !!restored.plan);
+
+    // Older states didn't track pauses, interruptions or extensions
+    restored[type] = {
+      ...restored[type],
+      pausedAt: restored[type].pausedAt || null,
+      interruptions: Array.isArray(restored[type].interruptions) ? restored[type].interruptions : [],
+      extended: restored[type].extended || 0
+    };
+
+    if (!restored[type].duration || !isActiveRunning) {
+      restored[type] = { ...restored[type], duration: getDurationFromSettings(type, settings) + restored[type].extended };
+    }
+
+    // Only the active phase may be counting
+    if (type !== restored.activeType && restored[type].isRunning) {
+      restored[type] = { ...restored[type], isRunning: false, startTime: null };
+    }
+  });
+
+  // Older states didn't store a status, and a stored one must agree with the phase
+  const storedStatus = parsedState.status;
+  const isCounting = restored[restored.activeType].isRunning;
+  const isCountingStatus = storedStatus === 'running' || storedStatus === 'overtime';
+  restored.status = storedStatus && isCountingStatus === isCounting
+    ? storedStatus
+    : deriveStatus(restored);
+
+  return restored;
+}
+
+/**
+ * Storage backed by a Web Storage area (localStorage in the app)
+ */
+export function createWebTimerStorage(area: Pick<Storage, 'getItem' | 'setItem'>, key: string): TimerStorage {
+  return {
+    load: () => {
+      try {
+        const storedState = area.getItem(key);
+        return storedState ? JSON.parse(storedState) : null;
+      } catch (error) {
+        console.error('Error loading timer state:', error);
+        return null;
+      }
+    },
+    save: (state: TimerMachineState) => {
+      try {
+        area.setItem(key, JSON.stringify(state));
+      } catch (error) {
+        console.error('Error saving timer state:', error);
+      }
+    }
+  };
+}
+
+/**
+ * Storage that only lives as long as the machine
+ */
+export function createMemoryTimerStorage(initial: TimerMachineState | null = null): TimerStorage {
+  let stored: TimerMachineState | null = initial;
+
+  return {
+    load: () => stored,
+    save: (state: TimerMachineState) => {
+      stored = state;
+    }
+  };
+}
+
+/**
+ * Duration in seconds for a timer type
+ */
+export function getDurationFromSettings(type: TimerType, settings: TimerSettings): number {
+  switch (type) {
+    case 'pomodoro': return settings.timerDurations.pomodoro * 60;
+    case 'shortBreak': return settings.timerDurations.shortBreak * 60;
+    case 'longBreak': return settings.timerDurations.longBreak * 60;
+    case 'stopwatch': return 0;
+    default: return settings.timerDurations.pomodoro * 60;
+  }
+}
+
+// Helper function to keep a state when an event doesn't apply
+function unchanged(state: TimerMachineState): TransitionResult {
+  return { state, effects: [] };
+}
+
+// Helper function to create a stopped phase
+function createPhaseState(duration: number): PhaseState {
+  return {
+    startTime: null,
+    duration,
+    elapsed: 0,
+    isRunning: false,
+    pausedAt: null,
+    interruptions: [],
+    extended: 0
+  };
+}
+
+// Helper function to stop a running phase, keeping its elapsed time
+function pausePhase(timer: PhaseState, now: number): PhaseState {
+  const startTime = timer.startTime || now;
+
+  return {
+    ...timer,
+    isRunning: false,
+    elapsed: Math.floor((now - startTime) / 1000),
+    pausedAt: now
+  };
+}
+
+// Helper function to start a phase as of the given timestamp
+function startPhaseAt(state: TimerMachineState, type: TimerType, startTime: number): TimerMachineState {
+  // A paused phase restarts with its elapsed time already behind it
+  const resumedAt = startTime + state[type].elapsed * 1000;
+
+  return {
+    ...state,
+    status: 'running',
+    activeType: type,
+    pendingAutoStart: null,
+    [type]: {
+      ...state[type],
+      startTime,
+      elapsed: 0,
+      isRunning: true,
+      pausedAt: null,
+      interruptions: closeInterruptions(state[type].interruptions, resumedAt)
+    }
+  };
+}
+
+// Helper function to get the timestamp when a running phase reaches zero
+function getPhaseEndTime(timer: PhaseState): number | null {
+  if (!timer.isRunning || !timer.startTime) return null;
+
+  return timer.startTime + timer.duration * 1000;
+}
+
+// Helper function to end an interruption still open when the timer restarts or completes
+function closeInterruptions(interruptions: Interruption[], at: number): Interruption[] {
+  const last = interruptions[interruptions.length - 1];
+  if (!last || last.duration !== null) return interruptions;
+
+  return [
+    ...interruptions.slice(0, -1),
+    { ...last, duration: Math.max(0, Math.floor((at - last.startedAt) / 1000)) }
+  ];
+}
+
+// Helper function to get when the active phase reaches zero, unless it's already
+// in overtime or it's the stopwatch, which never does
+function getActiveEndTime(state: TimerMachineState): number | null {
+  if (state.status === 'overtime' || state.activeType === 'stopwatch') return null;
+
+  return getPhaseEndTime(state[state.activeType]);
+}
+
+// Helper function to get when a paused pomodoro times out. States saved before
+// pausedAt existed still have the start time and elapsed seconds to work it out.
+function getAbandonTime(state: TimerMachineState, settings: TimerSettings): number | null {
+  const timer = state[state.activeType];
+  const timeoutMinutes = settings.pauseTimeoutMinutes || 0;
+
+  if (state.status !== 'paused' || state.activeType !== 'pomodoro' || timeoutMinutes <= 0) return null;
+
+  const pausedAt = timer.pausedAt || (timer.startTime ? timer.startTime + timer.elapsed * 1000 : null);
+  if (pausedAt === null) return null;
+
+  return pausedAt + timeoutMinutes * 60 * 1000;
+}
+
+// Helper function to pick the phase that follows the active one
+function getNextTimerType(state: TimerMachineState, settings: TimerSettings, countsPomodoro: boolean): TimerType {
+  if (state.activeType !== 'pomodoro') {
+    // After any break, go back to pomodoro
+    return 'pomodoro';
+  }
+
+  // A skipped pomodoro doesn't move us closer to the long break
+  if (!countsPomodoro) return 'shortBreak';
+
+  return (state.completedPomodoros + 1) % settings.longBreakInterval === 0 ? 'longBreak' : 'shortBreak';
+}
+
+// Helper function to check whether the settings auto-start a phase type
+function shouldAutoStart(type: TimerType, settings: TimerSettings): boolean {
+  return type === 'pomodoro' ? settings.autoStartPomodoros : settings.autoStartBreaks;
+}
+
+// Helper function to describe a phase as it ends
+function summarizePhase(timer: PhaseState, at: number): PhaseSummary {
+  const elapsed = timer.isRunning && timer.startTime
+    ? Math.floor((at - timer.startTime) / 1000)
+    : timer.elapsed;
+
+  return {
+    elapsed,
+    extended: timer.extended,
+    interruptions: closeInterruptions(timer.interruptions, at)
+  };
+}
+
+// Helper function to complete the active phase and report it
+function completePhase(state: TimerMachineState, settings: TimerSettings, at: number): TransitionResult {
+  const completedType = state.activeType;
+  const summary = summarizePhase(state[completedType], at);
+  const result = advanceToNextPhase(state, settings, at, true);
+
+  return {
+    state: result.state,
+    effects: [{ type: 'phaseCompleted', completedType, nextType: result.nextType, at, summary }]
+  };
+}
+
+// Helper function to move on to the next phase and queue its auto-start
+function advanceToNextPhase(
+  state: TimerMachineState,
+  settings: TimerSettings,
+  at: number,
+  countsPomodoro: boolean
+): { state: TimerMachineState; nextType: TimerType } {
+  const finishedType = state.activeType;
+  const completedPomodoros = finishedType === 'pomodoro' && countsPomodoro
+    ? state.completedPomodoros + 1
+    : state.completedPomodoros;
+
+  // A plan runs its blocks back to back
+  const plan = state.plan;
+  if (plan && plan.index + 1 < plan.blocks.length) {
+    const nextBlock = plan.blocks[plan.index + 1];
+    const planned: TimerMachineState = {
+      ...state,
+      completedPomodoros,
+      pendingAutoStart: null,
+      plan: { ...plan, index: plan.index + 1 },
+      [finishedType]: createPhaseState(getDurationFromSettings(finishedType, settings))
+    };
+    planned[nextBlock.type] = createPhaseState(nextBlock.duration);
+
+    return { state: startPhaseAt(planned, nextBlock.type, at), nextType: nextBlock.type };
+  }
+
+  // Otherwise (or once the plan's last block is done) follow the usual cycle
+  const nextType = getNextTimerType(state, settings, countsPomodoro);
+
+  const updated: TimerMachineState = {
+    ...state,
+    status: 'completed',
+    activeType: nextType,
+    completedPomodoros,
+    plan: null,
+    pendingAutoStart: !plan && shouldAutoStart(nextType, settings)
+      ? { type: nextType, startsAt: at + AUTO_START_DELAY_SECONDS * 1000 }
+      : null,
+    // Reset the finished timer
+    [finishedType]: createPhaseState(getDurationFromSettings(finishedType, settings))
+  };
+
+  // The next phase always starts fresh
+  updated[nextType] = createPhaseState(getDurationFromSettings(nextType, settings));
+
+  return { state: updated, nextType };
+}
+
+// Helper function to drop the plan and go back to the configured durations
+function endPlan(state: TimerMachineState, settings: TimerSettings): TimerMachineState {
+  if (!state.plan) return state;
+
+  return applyDurations({ ...state, plan: null }, settings);
+}
+
+// Helper function to apply changed durations without disturbing elapsed time
+function applyDurations(state: TimerMachineState, settings: TimerSettings): TimerMachineState {
+  let updated = state;
+
+  TIMER_TYPES.forEach(type => {
+    // Time added with extend stays on top of the new duration
+    const duration = getDurationFromSettings(type, settings) + updated[type].extended;
+
+    if (updated[type].duration !== duration) {
+      console.log(`Updating ${type} duration: ${updated[type].duration}s -> ${duration}s`);
+      updated = { ...updated, [type]: { ...updated[type], duration } };
+    }
+  });
+
+  return updated;
+}
+
+// Helper function to work out a status for states stored without one
+function deriveStatus(state: TimerMachineState): TimerStatus {
+  const timer = state[state.activeType];
+
+  if (timer.isRunning) return 'running';
+  if (timer.elapsed > 0) return 'paused';
+  if (state.pendingAutoStart) return 'completed';
+  return 'idle';
+}
+
+// Helper function to check the shape of a stored phase
+function isPhaseState(value: unknown): value is PhaseState {
+  if (!value || typeof value !== 'object') return false;
+
+  const phase = value as PhaseState;
+  return typeof phase.duration === 'number' &&
+    typeof phase.elapsed === 'number' &&
+    typeof phase.isRunning === 'boolean';
+}
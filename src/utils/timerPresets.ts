@@ -0,0 +1,160 @@
+/**
+ * Named timer presets for PomoSpace
+ * A preset bundles the durations, long break interval and auto-start flags
+ * so a whole timer setup can be switched in one go.
+ */
+
+export interface TimerPreset {
+  id: string;
+  name: string;
+  timerDurations: {
+    pomodoro: number;
+    shortBreak: number;
+    longBreak: number;
+  };
+  longBreakInterval: number;
+  autoStartBreaks: boolean;
+  autoStartPomodoros: boolean;
+}
+
+// The parts of the settings a preset controls
+type PresetSettings = Omit<TimerPreset, 'id' | 'name'> & {
+  presets: TimerPreset[];
+  activePresetId: string | null;
+};
+
+// Presets available to everyone, they can't be edited or deleted
+export const BUILT_IN_PRESETS: TimerPreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic (25/5/15)',
+    timerDurations: { pomodoro: 25, shortBreak: 5, longBreak: 15 },
+    longBreakInterval: 4,
+    autoStartBreaks: false,
+    autoStartPomodoros: false
+  },
+  {
+    id: 'deep-work',
+    name: 'Deep Work (50/10/30)',
+    timerDurations: { pomodoro: 50, shortBreak: 10, longBreak: 30 },
+    longBreakInterval: 3,
+    autoStartBreaks: true,
+    autoStartPomodoros: false
+  },
+  {
+    id: 'ultradian',
+    name: 'Ultradian (90/20/30)',
+    timerDurations: { pomodoro: 90, shortBreak: 20, longBreak: 30 },
+    longBreakInterval: 2,
+    autoStartBreaks: true,
+    autoStartPomodoros: false
+  }
+];
+
+/**
+ * Built-in presets followed by the user's own
+ */
+export const getAllPresets = (settings: Pick<PresetSettings, 'presets'>): TimerPreset[] => {
+  return [...BUILT_IN_PRESETS, ...settings.presets];
+};
+
+/**
+ * Check whether a preset ships with the app
+ */
+export const isBuiltInPreset = (presetId: string): boolean => {
+  return BUILT_IN_PRESETS.some(preset => preset.id === presetId);
+};
+
+/**
+ * The active preset, or null when the settings were edited away from it
+ */
+export const getActivePreset = (settings: PresetSettings): TimerPreset | null => {
+  const preset = getAllPresets(settings).find(p => p.id === settings.activePresetId);
+  if (!preset) return null;
+
+  const matches = preset.timerDurations.pomodoro === settings.timerDurations.pomodoro &&
+    preset.timerDurations.shortBreak === settings.timerDurations.shortBreak &&
+    preset.timerDurations.longBreak === settings.timerDurations.longBreak &&
+    preset.longBreakInterval === settings.longBreakInterval &&
+    preset.autoStartBreaks === settings.autoStartBreaks &&
+    preset.autoStartPomodoros === settings.autoStartPomodoros;
+
+  return matches ? preset : null;
+};
+
+/**
+ * Copy a preset's values into the settings and mark it active
+ */
+export function applyPreset<T extends PresetSettings>(settings: T, presetId: string): T {
+  const preset = getAllPresets(settings).find(p => p.id === presetId);
+
+  if (!preset) {
+    console.error(`Unknown timer preset: ${presetId}`);
+    return settings;
+  }
+
+  return {
+    ...settings,
+    timerDurations: { ...preset.timerDurations },
+    longBreakInterval: preset.longBreakInterval,
+    autoStartBreaks: preset.autoStartBreaks,
+    autoStartPomodoros: preset.autoStartPomodoros,
+    activePresetId: preset.id
+  };
+}
+
+/**
+ * Save the current timer setup as a new user preset and make it active
+ */
+export function savePresetFromSettings<T extends PresetSettings>(settings: T, name: string): T {
+  const preset: TimerPreset = {
+    id: `custom-${Date.now()}`,
+    name: name.trim(),
+    timerDurations: { ...settings.timerDurations },
+    longBreakInterval: settings.longBreakInterval,
+    autoStartBreaks: settings.autoStartBreaks,
+    autoStartPomodoros: settings.autoStartPomodoros
+  };
+
+  return {
+    ...settings,
+    presets: [...settings.presets, preset],
+    activePresetId: preset.id
+  };
+}
+
+/**
+ * Remove a user preset. Built-in presets are left alone.
+ */
+export function deletePreset<T extends PresetSettings>(settings: T, presetId: string): T {
+  if (isBuiltInPreset(presetId)) return settings;
+
+  return {
+    ...settings,
+    presets: settings.presets.filter(preset => preset.id !== presetId),
+    activePresetId: settings.activePresetId === presetId ? null : settings.activePresetId
+  };
+}
+
+/**
+ * Keep only well-formed presets from stored data. Their numbers are checked
+ * against the settings ranges in settingsSchema.
+ */
+export const parsePresets = (value: unknown): TimerPreset[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((preset): preset is TimerPreset =>
+    !!preset &&
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    !!preset.timerDurations &&
+    typeof preset.timerDurations.pomodoro === 'number' &&
+    typeof preset.timerDurations.shortBreak === 'number' &&
+    typeof preset.timerDurations.longBreak === 'number' &&
+    typeof preset.longBreakInterval === 'number'
+  ).map(preset => ({
+    ...preset,
+    autoStartBreaks: !!preset.autoStartBreaks,
+    autoStartPomodoros: !!preset.autoStartPomodoros
+  }));
+};
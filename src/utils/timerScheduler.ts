@@ -0,0 +1,86 @@
+/**
+ * Timer scheduling for PomoSpace
+ * Runs the display tick and the "fire at the exact deadline" timeout in a
+ * Web Worker, which background tabs don't throttle like the main thread.
+ * Falls back to main-thread timers where workers aren't available.
+ */
+
+// Messages sent to the timer worker
+export type SchedulerCommand =
+  | { type: 'scheduleDeadline'; at: number }
+  | { type: 'cancelDeadline' }
+  | { type: 'startTicking'; intervalMs: number }
+  | { type: 'stopTicking' };
+
+// Messages posted back by the timer worker
+export type SchedulerEvent =
+  | { type: 'deadline'; at: number }
+  | { type: 'tick' };
+
+interface TimerSchedulerOptions {
+  onDeadline: () => void;
+  onTick: () => void;
+}
+
+export interface TimerScheduler {
+  scheduleDeadline: (at: number | null) => void;  // null cancels the pending deadline
+  setTicking: (intervalMs: number | null) => void; // null stops ticking
+  stop: () => void;
+}
+
+// Helper function to start the worker, or null if this browser can't
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+
+  try {
+    return new Worker(new URL('../workers/timerWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.error('Error starting timer worker, falling back to main thread timers:', error);
+    return null;
+  }
+};
+
+export function createTimerScheduler({ onDeadline, onTick }: TimerSchedulerOptions): TimerScheduler {
+  const worker = createWorker();
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<SchedulerEvent>) => {
+      if (event.data.type === 'deadline') {
+        onDeadline();
+      } else {
+        onTick();
+      }
+    };
+
+    const send = (command: SchedulerCommand) => worker.postMessage(command);
+
+    return {
+      scheduleDeadline: at => send(at === null ? { type: 'cancelDeadline' } : { type: 'scheduleDeadline', at }),
+      setTicking: intervalMs => send(intervalMs === null ? { type: 'stopTicking' } : { type: 'startTicking', intervalMs }),
+      stop: () => worker.terminate()
+    };
+  }
+
+  // Main thread fallback
+  let deadlineTimeout: ReturnType<typeof setTimeout> | null = null;
+  let tickInterval: ReturnType<typeof setInterval> | null = null;
+
+  const scheduleDeadline = (at: number | null) => {
+    if (deadlineTimeout !== null) clearTimeout(deadlineTimeout);
+    deadlineTimeout = at === null ? null : setTimeout(onDeadline, Math.max(0, at - Date.now()));
+  };
+
+  const setTicking = (intervalMs: number | null) => {
+    if (tickInterval !== null) clearInterval(tickInterval);
+    tickInterval = intervalMs === null ? null : setInterval(onTick, intervalMs);
+  };
+
+  return {
+    scheduleDeadline,
+    setTicking,
+    stop: () => {
+      scheduleDeadline(null);
+      setTicking(null);
+    }
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Timer worker for PomoSpace
+ * Background tabs throttle main-thread timers, so the tick loop and the
+ * deadline timeout live here and post back to the page when they fire.
+ */
+import type { SchedulerCommand, SchedulerEvent } from '../utils/timerScheduler';
+
+let deadlineTimeout: ReturnType<typeof setTimeout> | null = null;
+let tickInterval: ReturnType<typeof setInterval> | null = null;
+
+const post = (event: SchedulerEvent) => {
+  self.postMessage(event);
+};
+
+// Helper function to clear the pending deadline
+const clearDeadline = () => {
+  if (deadlineTimeout !== null) {
+    clearTimeout(deadlineTimeout);
+    deadlineTimeout = null;
+  }
+};
+
+// Helper function to stop the tick loop
+const clearTick = () => {
+  if (tickInterval !== null) {
+    clearInterval(tickInterval);
+    tickInterval = null;
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<SchedulerCommand>) => {
+  const command = event.data;
+
+  switch (command.type) {
+    case 'scheduleDeadline':
+      clearDeadline();
+      deadlineTimeout = setTimeout(() => {
+        deadlineTimeout = null;
+        post({ type: 'deadline', at: command.at });
+      }, Math.max(0, command.at - Date.now()));
+      break;
+    case 'cancelDeadline':
+      clearDeadline();
+      break;
+    case 'startTicking':
+      clearTick();
+      tickInterval = setInterval(() => post({ type: 'tick' }), command.intervalMs);
+      break;
+    case 'stopTicking':
+      clearTick();
+      break;
+  }
+});
@@ -1,9 +1,52 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'crypto'
+import { readFileSync, readdirSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+
+// Files from public/ the app needs offline, besides the build output
+const PUBLIC_PRECACHE = [
+  '/manifest.webmanifest',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/sounds/sound-player.js',
+  ...readdirSync(resolve(__dirname, 'public/sounds'))
+    .filter(file => file.endsWith('.mp3'))
+    .map(file => `/sounds/${file}`)
+]
+
+// Writes the list of files to precache into the built service worker, with a
+// version that changes with the build so browsers pick up the new worker
+function precacheManifest(): Plugin {
+  let outDir = 'dist'
+  let bundleFiles: string[] = []
+  let indexHtml = ''
+
+  return {
+    name: 'pomospace-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    generateBundle(_options, bundle) {
+      bundleFiles = Object.keys(bundle).filter(file => file !== 'index.html' && !file.endsWith('.map'))
+      const index = bundle['index.html']
+      indexHtml = index && index.type === 'asset' ? String(index.source) : ''
+    },
+    closeBundle() {
+      const urls = ['/', '/index.html', ...bundleFiles.map(file => `/${file}`), ...PUBLIC_PRECACHE]
+      const version = createHash('sha256').update(indexHtml).update(urls.join('\n')).digest('hex').slice(0, 12)
+
+      const swPath = resolve(outDir, 'sw.js')
+      const sw = readFileSync(swPath, 'utf-8')
+      writeFileSync(swPath, sw.replace('self.__PRECACHE_MANIFEST', JSON.stringify({ version, urls })))
+    }
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   server: {
     proxy: {
       '/api': {